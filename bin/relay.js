@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+const { startRelayServer } = require("../dist/relay");
+
+const port = Number(process.env.PORT) || 8080;
+startRelayServer({ port });
+console.log(`draft-pad relay listening on ws://localhost:${port}`);
@@ -14,41 +14,165 @@ import paper, {
   Color,
   Raster,
   Layer,
+  Group,
   Rectangle,
 } from "paper/dist/paper-core";
 import { usePinch, useWheel } from "@use-gesture/react";
 import useSize from "@react-hook/size";
-import { DrawState, Mutation, Splitter, Stroke } from "./lib/DrawState";
+import { OrderedMap } from "immutable";
+import {
+  DrawLayer,
+  DrawState,
+  getStrokeLayer,
+  Mutation,
+  RestackMode,
+  Splitter,
+  Stroke,
+} from "./lib/DrawState";
 import { defaultDrawCtrl, DrawCtrl } from "./lib/DrawCtrl";
-import { releaseCanvas } from "./utils/canvas";
+import { AwarenessState, AwarenessUpdate } from "./lib/awareness";
+import {
+  getPressureOutline,
+  getWidthFactor,
+  PressureData,
+  PressureSample,
+} from "./lib/pressure";
+import type { Matrix } from "./lib/pathData";
+import { recognizeShape, RecognizedShape } from "./lib/recognize";
+import { getShapeGeometry, ShapeGeometry, ShapeMode } from "./lib/shapes";
+import {
+  createRichText,
+  formatText,
+  getIndexAt,
+  getLineBounds,
+  getPlainText,
+  getRangeStyle,
+  getStyleAt,
+  getVerticalIndex,
+  replaceText,
+  RichTextData,
+  TextLayout,
+  TextStyle,
+} from "./lib/richText";
+import {
+  canvasToBlob,
+  releaseCanvas,
+  createVirtualCanvas,
+} from "./utils/canvas";
 import { getCircleCursor, getRotateCurcor } from "./utils/cursor";
 import {
+  usePenInput,
   usePreventTouch,
   usePreventGesture,
   rightClickHandler,
 } from "./utils/touch";
 import { Setter, useEvent } from "./utils/hooks";
-import { setGridItem, getGridItems, gernerateGrid } from "./utils/grid";
+import { SpatialGrid } from "./lib/grid";
+import { useRenderPort } from "./utils/offscreen";
+import type { RenderPort } from "./lib/offscreen";
+import { StrokeTiles, TILE_BUDGET } from "./lib/tiles";
+import {
+  CLIPBOARD_TYPE,
+  ClipboardStrokes,
+  getPastedGroups,
+  parseClipboardStrokes,
+  toClipboardStrokes,
+} from "./lib/clipboard";
+import { renderSVG } from "./lib/svg";
+import { encodeDataURL } from "./lib/image";
+import {
+  fromPointText,
+  getRichTextData,
+  isOnResizeHandle,
+  isRichText,
+  paintTextOverlay,
+  renderRichText,
+  startRichText,
+} from "./utils/text";
+import {
+  importSVGStrokes,
+  readClipboard,
+  writeClipboard,
+} from "./utils/clipboard";
+
+export interface ExportImageOptions {
+  format?: "png" | "jpeg";
+  // output pixels per page unit, 72 * scale dpi.
+  scale?: number;
+  // `null` keeps png transparent.
+  background?: string | null;
+  includeBackgroundImage?: boolean;
+  quality?: number;
+  output?: "blob" | "dataURL";
+}
+
+export interface TextToolState {
+  // the edited text box.
+  item: paper.Group;
+  data: RichTextData;
+  selection: [number, number];
+  // the style shared by the selection, or the one typed at the caret.
+  style: TextStyle;
+}
+
+// styles the selected text, or the text typed next at the caret.
+export type TextMutation = TextStyle & { fontFamily?: string; width?: number };
 
 export interface DrawRefType {
   deleteSelected: () => void;
   duplicateSelected: () => void;
+  // puts the selection on the system clipboard, as strokes for other pads
+  // and as svg and png for other apps.
+  copySelected: () => Promise<void>;
+  cutSelected: () => Promise<void>;
+  // adds copied strokes, images or svg at the pointer.
+  paste: () => Promise<void>;
   mutateStyle: (updated: Partial<DrawCtrl>) => void;
+  mutateText: (updated: TextMutation) => void;
+  // the older api: `cb` changes a point text standing for the edited box.
+  // Its content, font, size and colour are applied to the whole box.
   mutatePointText: (cb: (prev: paper.PointText) => void) => void;
+  moveSelectedToLayer: (layer: string) => void;
+  // binds the selection into a group that is selected as one, nested when
+  // it holds groups.
+  groupSelected: () => void;
+  // splits the outermost groups of the selection.
+  ungroupSelected: () => void;
+  bringToFront: () => void;
+  sendToBack: () => void;
+  // past the next stroke the selection overlaps.
+  bringForward: () => void;
+  sendBackward: () => void;
   getPaperScope: () => paper.PaperScope;
+  exportImage(
+    options: ExportImageOptions & { output: "dataURL" }
+  ): Promise<string>;
+  exportImage(options?: ExportImageOptions): Promise<Blob>;
 }
 interface DrawPropType {
   drawState: DrawState;
   otherStates?: DrawState[];
   onChange?: Setter<DrawState>;
   toggleSelectTool?: (active: boolean, clickPoint?: paper.Point) => void;
-  toggleTextTool?: (pt: paper.PointText | undefined, slow: boolean) => void;
+  toggleTextTool?: (text: TextToolState | undefined, slow: boolean) => void;
   drawCtrl?: DrawCtrl;
   readonly?: boolean;
+  // an unbounded canvas that grows with its content, where `width` and
+  // `height` only set the initial view.
+  infinite?: boolean;
   imgSrc?: string;
+  // paints the committed strokes off the main thread, on a canvas under the
+  // one of paper.js; read once, on mount.
+  createRenderWorker?: () => RenderPort;
+  peers?: AwarenessState[];
+  onAwarenessChange?: (update: AwarenessUpdate) => void;
 }
 
 const HIT_TOLERANCE = 20;
+// ms the pointer rests before a stroke is recognized as a shape.
+const HOLD_DELAY = 500;
+// how far an infinite canvas zooms out.
+const MIN_INFINITE_SCALE = 0.1;
 const P_ZERO = new Point(0, 0);
 
 const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
@@ -59,20 +183,39 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       onChange = () => {},
       drawCtrl = defaultDrawCtrl,
       readonly = false,
+      infinite = false,
       imgSrc,
+      createRenderWorker,
       toggleSelectTool = () => {},
       toggleTextTool = () => {},
+      peers,
+      onAwarenessChange,
     },
     ref
   ) => {
     const { width, height } = drawState;
     const projSize = useMemo(() => new Size(width, height), [width, height]);
-    const { mode, finger, lasso, eraserWidth } = drawCtrl;
+    const { mode, finger, lasso, eraserWidth, layer } = drawCtrl;
 
     const canvasEl = useRef<HTMLCanvasElement>(null);
     const scope = useRef(new paper.PaperScope());
-    const [group, setGroup] = useState<paper.Item[]>([]);
+    const renderPort = useRenderPort(createRenderWorker, canvasEl);
     const [teamGroup, setTeamGroup] = useState<paper.Item[]>([]);
+    // the painted strokes by their bounds, kept up to date stroke by stroke.
+    const spatialIndex = useRef(new SpatialGrid<paper.Item>());
+    // the item on layer_1 of each rendered stroke.
+    const paintedItems = useRef(new Map<string, paper.Item>());
+    const renderedStrokes = useRef(OrderedMap<string, Stroke>());
+    // a group on layer_1 for each layer of the document.
+    const layerGroups = useRef(new Map<string, paper.Group>());
+    // the strokes in tiles, shown instead of layer_1 while the view moves.
+    const [strokeTiles] = useState(
+      () =>
+        new StrokeTiles({
+          createCanvas: (w, h) => createVirtualCanvas(w, h).canvas,
+          onChange: () => updateTiles(),
+        })
+    );
     const [path, setPath] = usePaperItem<paper.Path>();
     const [rotateHandle, setRotateHandle] = usePaperItem<paper.Path>();
 
@@ -108,12 +251,12 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
     useEffect(() => {
       scope.current.activate();
       const { layers } = scope.current.project;
-      const rects = paintRects(layers, projSize);
+      const rects = paintRects(layers, projSize, infinite);
 
       return () => rects.forEach((r) => r.remove());
-    }, [projSize]);
+    }, [projSize, infinite]);
 
-    const [canvasWidth] = useSize(canvasEl);
+    const [canvasWidth, canvasHeight] = useSize(canvasEl);
     const ratio = canvasWidth / width;
     const currCenter = useRef(new Point(projSize).divide(2));
     const [currScale, setCurrScale] = useState(1);
@@ -122,14 +265,76 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
     useEffect(() => {
       if (!ratio) return;
       const scp = scope.current;
-      scp.view.viewSize = projSize.multiply(ratio);
+      scp.view.viewSize = infinite
+        ? new Size(canvasWidth, canvasHeight)
+        : projSize.multiply(ratio);
       scp.view.zoom = ratio * prevScale.current;
       scp.view.center = currCenter.current;
-      scp.project.layers.forEach((l) => (l.visible = true));
+      // only the live layer is painted here when the worker paints the rest.
+      scp.project.layers.forEach((l, i) => (l.visible = !renderPort || i > 1));
       scp.view.update();
-    }, [ratio, projSize]);
+    }, [ratio, projSize, infinite, canvasWidth, canvasHeight, renderPort]);
 
-    const [imgRaster, setImgRaster] = usePaperItem();
+    useEffect(() => {
+      renderPort?.postMessage({
+        type: "page",
+        width,
+        height,
+        infinite,
+        backgroundImage: imgSrc,
+      });
+    }, [renderPort, width, height, infinite, imgSrc]);
+
+    // the painted strokes near the view, the others are hidden.
+    const shownItems = useRef(new Set<paper.Item>());
+    // the view and half of it around, so that short moves show no gaps.
+    const getCullArea = () => scope.current.view.bounds.scale(2);
+    const cullItems = () => {
+      const inView = new Set(spatialIndex.current.search(getCullArea()));
+      shownItems.current.forEach((item) => {
+        if (!inView.has(item)) item.visible = false;
+      });
+      inView.forEach((item) => (item.visible = true));
+      shownItems.current = inView;
+    };
+    const uncullItems = () => {
+      paintedItems.current.forEach((item) => (item.visible = true));
+      return () =>
+        paintedItems.current.forEach(
+          (item) => (item.visible = shownItems.current.has(item))
+        );
+    };
+
+    const onViewChange = useEvent(() => {
+      cullItems();
+      updateTiles();
+      const { view } = scope.current;
+      const { width, height } = view.viewSize;
+      renderPort?.postMessage({
+        type: "view",
+        matrix: view.matrix.values as Matrix,
+        width,
+        height,
+        pixelRatio: view.pixelRatio,
+      });
+    });
+    useEffect(() => {
+      const { view } = scope.current;
+      let last = "";
+      const checkView = () => {
+        const { width, height } = view.viewSize;
+        const { pixelRatio } = view;
+        const key = [...view.matrix.values, width, height, pixelRatio].join();
+        if (key === last) return;
+        last = key;
+        onViewChange();
+      };
+      // the view moves in many ways, animated as well.
+      view.on("frame", checkView);
+      return () => void view.off("frame", checkView);
+    }, [renderPort]);
+
+    const [imgRaster, setImgRaster] = usePaperItem<paper.Raster>();
     useEffect(() => {
       if (!imgSrc) return;
       scope.current.activate();
@@ -144,11 +349,82 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       setImgRaster(raster);
     }, [imgSrc, projSize, setImgRaster]);
 
-    const mergedStrokes = useMemo(
-      () => DrawState.mergeStates(drawState, ...(otherStates || [])),
+    useEffect(() => {
+      const l2 = scope.current.project.layers[2];
+      if (!l2 || !peers?.length || !ratio) return;
+      scope.current.activate();
+      // keep cursors the same size on screen.
+      const unit = 1 / scope.current.view.zoom;
+      const items = peers.map((peer) => paintPeer(peer, l2, unit)).flat();
+      return () => items.forEach((item) => item.remove());
+    }, [peers, ratio, currScale]);
+
+    const lastMerge = useRef<{
+      drawState: DrawState;
+      otherStates?: DrawState[];
+      strokes: OrderedMap<string, Stroke>;
+    }>();
+    const mergedStrokes = useMemo(() => {
+      const last = lastMerge.current;
+      // most changes are one local operation, applied to the last committed
+      // merge.
+      const next =
+        last && last.otherStates === otherStates
+          ? DrawState.mergeAfter(last.strokes, last.drawState, drawState)
+          : undefined;
+      return next ?? DrawState.mergeStates(drawState, ...(otherStates || []));
+    }, [drawState, otherStates]);
+    // a render that is thrown away leaves the last merge alone.
+    useLayoutEffect(() => {
+      lastMerge.current = { drawState, otherStates, strokes: mergedStrokes };
+    }, [drawState, otherStates, mergedStrokes]);
+
+    const lastLayers = useRef<DrawLayer[]>([]);
+    const mergedLayers = useMemo(() => {
+      const layers = DrawState.mergeLayers(drawState, ...(otherStates || []));
+      // the same layers keep the same array, and the effects below idle.
+      const same =
+        JSON.stringify(layers) === JSON.stringify(lastLayers.current);
+      if (!same) lastLayers.current = layers;
+      return lastLayers.current;
+    }, [drawState, otherStates]);
+
+    const mergedGroups = useMemo(
+      () => DrawState.mergeGroups(drawState, ...(otherStates || [])),
       [drawState, otherStates]
     );
 
+    const getLayerGroup = (uid: string) => {
+      let group = layerGroups.current.get(uid);
+      if (!group) {
+        group = new Group();
+        group.data.layer = uid;
+        scope.current.project.layers[1]?.addChild(group);
+        layerGroups.current.set(uid, group);
+      }
+      return group;
+    };
+    useEffect(() => {
+      const [, l1] = scope.current.project.layers;
+      if (!l1) return;
+      scope.current.activate();
+      const known = new Set<string>();
+      mergedLayers.forEach(({ uid, visible, locked, opacity }) => {
+        const group = getLayerGroup(uid);
+        l1.addChild(group);
+        group.visible = visible;
+        group.opacity = opacity;
+        group.data.locked = locked;
+        known.add(uid);
+      });
+      // strokes of layers not known yet stay on top.
+      layerGroups.current.forEach((group, uid) => {
+        if (!known.has(uid)) l1.addChild(group);
+      });
+      renderPort?.postMessage({ type: "layers", layers: mergedLayers });
+      if (!renderPort) strokeTiles.setLayers(mergedLayers);
+    }, [mergedLayers, renderPort]);
+
     const renderSlow = useRef(false);
 
     const deferTimerID = useRef(0);
@@ -161,20 +437,65 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       if (!l1) return;
       const render = () => {
         scope.current.activate();
-        const tempGroup: paper.Item[] = [];
-        const tempTeamGroup: paper.Item[] = [];
-
-        // clean-up layer_1 except the clip mask.
-        l1.removeChildren(1);
-
-        mergedStrokes.forEach((stroke) => {
-          const self = drawState.hasStroke(stroke.uid);
-          const item = paintStroke(stroke, l1);
-          if (self && item) tempGroup.push(item);
-          if (item) tempTeamGroup.push(item);
+        const index = spatialIndex.current;
+        const items = paintedItems.current;
+        const prevStrokes = renderedStrokes.current;
+        const { removed, upserted } = DrawState.diffMerged(
+          prevStrokes,
+          mergedStrokes
+        );
+        renderedStrokes.current = mergedStrokes;
+        renderPort?.postMessage({ type: "patch", removed, upserted });
+        if (!renderPort) strokeTiles.applyPatch(removed, upserted);
+
+        const unpaint = (uid: string) => {
+          const item = items.get(uid);
+          if (!item) return;
+          item.remove();
+          index.remove(item);
+          items.delete(uid);
+          shownItems.current.delete(item);
+        };
+        removed.forEach(unpaint);
+        // the stroke below each upserted one in its layer.
+        const upsertedIDs = new Set(upserted.map(([stroke]) => stroke.uid));
+        const lastInLayer = new Map<string, string>();
+        const belowInLayer = new Map<string, string>();
+        if (upserted.length) {
+          mergedStrokes.forEach((stroke, uid) => {
+            const layer = getStrokeLayer(stroke);
+            const below = lastInLayer.get(layer);
+            if (upsertedIDs.has(uid) && below) belowInLayer.set(uid, below);
+            lastInLayer.set(layer, uid);
+          });
+        }
+        const cullArea = getCullArea();
+        upserted.forEach(([stroke]) => {
+          const { uid, pathData } = stroke;
+          const group = getLayerGroup(getStrokeLayer(stroke));
+          let item = items.get(uid);
+          // a moved stroke keeps its item.
+          if (!item || prevStrokes.get(uid)?.pathData !== pathData) {
+            unpaint(uid);
+            item = paintStroke(stroke, group);
+            if (!item) return;
+            items.set(uid, item);
+            index.insert(item, item.strokeBounds);
+            item.visible = item.strokeBounds.intersects(cullArea);
+            if (item.visible) shownItems.current.add(item);
+          }
+          const below = items.get(belowInLayer.get(uid) ?? "");
+          if (below?.parent === group) item.insertAbove(below);
+          else group.insertChild(0, item);
         });
-        setGroup(tempGroup);
-        setTeamGroup(tempTeamGroup);
+        if (removed.length || upserted.length) {
+          const tempTeamGroup: paper.Item[] = [];
+          mergedStrokes.forEach((_, uid) => {
+            const item = items.get(uid);
+            if (item) tempTeamGroup.push(item);
+          });
+          setTeamGroup(tempTeamGroup);
+        }
 
         unrasterizeCanvas();
         deferRender.current = false;
@@ -198,6 +519,26 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       return () => window.clearTimeout(deferTimerID.current);
     }, [mergedStrokes, drawState]);
 
+    // the worker starts from the strokes rendered so far.
+    useEffect(() => {
+      if (!renderPort) return;
+      const { removed, upserted } = DrawState.diffMerged(
+        OrderedMap(),
+        renderedStrokes.current
+      );
+      renderPort.postMessage({ type: "patch", removed, upserted });
+    }, [renderPort]);
+
+    // strokes changed on layer_1 but not committed yet, for the worker.
+    const previewItems = (items: paper.Item[]) => {
+      const strokes = items
+        .filter((item) => item.name)
+        .map((item): [string, string] => [item.name, exportStroke(item)]);
+      if (renderPort && strokes.length) {
+        renderPort.postMessage({ type: "preview", strokes });
+      }
+    };
+
     const hitRef = useRef<paper.HitResult>();
     const [selected, setSelected] = useState(false);
     const paperMode = mode === "select" && selected ? "selected" : mode;
@@ -220,52 +561,80 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
     }, [mode, resetSelect]);
     useEffect(() => resetSelect, [lasso, resetSelect]);
 
-    // reset selection after redo/undo
+    // reset selection after redo/undo, selective ones included
     useEffect(() => {
       const type = drawState.lastOp?.type ?? "";
-      if (/^redo|undo$/.test(type)) resetSelect();
+      if (/^(redo|undo|revert|reapply)$/.test(type)) resetSelect();
     }, [drawState, resetSelect]);
 
     useEffect(() => {
       toggleSelectTool(false);
-      if (pointText.current) {
-        const ptProxy = new Proxy(pointText.current, {});
-        toggleTextTool(ptProxy, renderSlow.current);
-      }
+      const text = getTextTool();
+      if (text) toggleTextTool(text, renderSlow.current);
     }, [canvasWidth, toggleSelectTool, toggleTextTool]);
 
-    const layerRaster = useRef<paper.Raster>();
-    const lrReusable = useRef(false);
-    // layer raster is no longer reusable after state changes.
-    useEffect(() => void (lrReusable.current = false), [mergedStrokes]);
-
-    const rasterizeLayer = () => {
-      if (!renderSlow.current) return;
-      const [l0, l1] = scope.current.project.layers;
-      if (!l0 || !l1) return;
-      l1.visible = true;
-      // move pdf image above clip mask before rasterizing.
-      if (imgRaster) l1.insertChild(1, imgRaster);
-
-      const dpi = 72 * devicePixelRatio;
-      const resolution = (canvasWidth / width) * dpi;
-      let raster = layerRaster.current;
-      if (!raster || !lrReusable.current) {
-        raster = layerRaster.current = l1.rasterize({ raster, resolution });
-        lrReusable.current = true;
+    // the level of the shown tiles, undefined while layer_1 is shown.
+    const tilesLevel = useRef<number>();
+    const shownTiles = useRef(new Map<string, paper.Raster>());
+    const updateTiles = useEvent(() => {
+      const level = tilesLevel.current;
+      const l0 = scope.current.project?.layers[0];
+      if (level === undefined || !l0) return;
+      scope.current.activate();
+      const { view } = scope.current;
+      // coarser tiles while zooming out, not more of them.
+      const next = Math.min(
+        level,
+        strokeTiles.getLevel(view.zoom * view.pixelRatio)
+      );
+      tilesLevel.current = next;
+      const { tiles, pending } = strokeTiles.getTiles(
+        view.bounds,
+        next,
+        TILE_BUDGET
+      );
+      const shown = shownTiles.current;
+      // older tiles cover the pending ones meanwhile.
+      if (!pending) {
+        const keys = new Set(tiles.map((tile) => tile.key));
+        shown.forEach((raster, key) => {
+          if (keys.has(key)) return;
+          raster.remove();
+          shown.delete(key);
+        });
       }
-      raster.visible = true;
+      tiles.forEach(({ key, bounds, canvas }) => {
+        const prev = shown.get(key);
+        if (prev?.canvas === canvas) return;
+        prev?.remove();
+        const raster = new Raster(canvas);
+        raster.fitBounds(new Rectangle(bounds));
+        l0.addChild(raster);
+        shown.set(key, raster);
+      });
+      if (pending) requestAnimationFrame(updateTiles);
+    });
 
+    const rasterizeLayer = () => {
+      if (!renderSlow.current || renderPort) return;
+      const [, l1] = scope.current.project.layers;
+      if (!l1) return;
+      const { view } = scope.current;
+      const level = strokeTiles.getLevel(view.zoom * view.pixelRatio);
+      // the visible tiles at once, those the view moves to frame by frame.
+      strokeTiles.getTiles(view.bounds, level);
+      tilesLevel.current = level;
+      updateTiles();
       l1.visible = false;
-      imgRaster?.addTo(l0);
     };
     const unrasterizeLayer = () => {
       scope.current.activate();
       const [, l1] = scope.current.project.layers;
-      const lr = layerRaster.current;
-      if (!l1 || !lr) return;
+      if (!l1 || tilesLevel.current === undefined) return;
+      tilesLevel.current = undefined;
+      shownTiles.current.forEach((raster) => raster.remove());
+      shownTiles.current.clear();
       l1.visible = true;
-      lr.visible = false;
     };
 
     const canvasRaster = useRef<paper.Raster>();
@@ -279,13 +648,12 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
     );
     useLayoutEffect(
       () => () => {
-        releaseCanvas(layerRaster.current?.canvas);
         releaseCanvas(canvasRaster.current?.canvas);
       },
       []
     );
     const rasterizeCanvas = () => {
-      if (!renderSlow.current) return;
+      if (!renderSlow.current || renderPort) return;
       // rasterize the canvas only once
       if (canvasRaster.current?.visible === true) return;
       scope.current.activate();
@@ -307,21 +675,51 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       if (!scope.current?.project) return;
       const [, l1] = scope.current.project.layers;
       const cr = canvasRaster.current;
-      const lr = layerRaster.current;
       if (!l1 || !cr) return;
       cr.visible = false;
-      // keep layer_1 hidden unless all 2 raster is hidden.
-      if (lr?.visible !== true) l1.visible = true;
+      // keep layer_1 hidden while its tiles are shown.
+      if (tilesLevel.current === undefined) l1.visible = true;
+    };
+
+    const [pen, penHandler] = usePenInput();
+    const pressureSamples = useRef<PressureSample[]>([]);
+    const lastDragTime = useRef(0);
+    const isPressureStroke = paperMode === "draw" && drawCtrl.pressure;
+
+    const holdTimerID = useRef(0);
+    const recognized = useRef(false);
+    const recognizeHold = () => {
+      if (!path) return;
+      const points = path.segments.map(({ point }) => point);
+      const shape = recognizeShape(points.map(({ x, y }) => [x, y]));
+      if (!shape) return;
+      const { segments, closed } = getShapePath(shape);
+      path.segments = segments;
+      path.closed = closed;
+      recognized.current = true;
     };
 
     const downPath = (e: paper.MouseEvent) => {
       rasterizeCanvas();
+      window.clearTimeout(holdTimerID.current);
+      recognized.current = false;
       setPath(startStroke(drawCtrl, e.point, renderSlow.current));
+      if (!isPressureStroke) return;
+      const factor = getWidthFactor(pen.current, drawCtrl);
+      pressureSamples.current = [[e.point.x, e.point.y, factor]];
+      lastDragTime.current = performance.now();
     };
     const downLasso = (e: paper.MouseEvent) => {
       setPath(startStroke(drawCtrl, e.point));
       requestAnimationFrame(rasterizeCanvas);
     };
+    const shapeStart = useRef<paper.Point>();
+    const downShape = (e: paper.MouseEvent) => {
+      setDefer();
+      rasterizeCanvas();
+      shapeStart.current = e.point;
+      setPath(startShape(drawCtrl, e.point));
+    };
     const downSelectRect = (e: paper.MouseEvent) => {
       // reset rect path before rasterizing;
       setPath(startRect(e.point));
@@ -355,20 +753,54 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
           lasso ? downLasso(e) : downSelectRect(e);
         }
       },
-      text: null,
+      text(e: paper.MouseEvent) {
+        const t = richText.current;
+        const layout = textLayout.current;
+        textDrag.current = undefined;
+        if (!t || !layout) return;
+        const local = t.globalToLocal(e.point);
+        if (isOnResizeHandle(t, local)) {
+          textDrag.current = "resize";
+          return;
+        }
+        if (!t.internalBounds.contains(local)) return;
+        textDrag.current = "select";
+        const index = getIndexAt(layout, local.x, local.y);
+        const [anchor] = textSelection.current;
+        selectText(e.modifiers.shift ? anchor : index, index);
+      },
       rect(e: paper.MouseEvent) {
         setDefer();
         rasterizeCanvas();
         setPath(startRect(e.point, drawCtrl));
       },
+      ...forShapes(() => downShape),
       picture: null,
     }[paperMode];
 
     const dragPath = (e: paper.MouseEvent) => {
       // cancel previous render timer.
       window.clearTimeout(deferTimerID.current);
+      if (isPressureStroke) return dragPressurePath(e);
+      // the shape stays once recognized.
+      if (recognized.current) return;
       path?.add(e.point);
       path?.smooth();
+      if (paperMode !== "draw" || !drawCtrl.recognizeShape) return;
+      window.clearTimeout(holdTimerID.current);
+      holdTimerID.current = window.setTimeout(recognizeHold, HOLD_DELAY);
+    };
+    const dragPressurePath = (e: paper.MouseEvent) => {
+      if (!path) return;
+      const now = performance.now();
+      const elapsed = Math.max(now - lastDragTime.current, 1);
+      lastDragTime.current = now;
+      const speed = e.delta.length / elapsed;
+      const factor = getWidthFactor({ ...pen.current, speed }, drawCtrl);
+      pressureSamples.current.push([e.point.x, e.point.y, factor]);
+      const { lineWidth: width } = drawCtrl;
+      const samples = pressureSamples.current;
+      path.segments = toSegments(getPressureOutline({ width, samples }));
     };
     const resizeRect = (e: paper.MouseEvent, selected = true) => {
       if (!path) return;
@@ -380,8 +812,33 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       s3.point.y = y;
       if (selected) path.selected = true;
     };
+    // shift keeps the proportions, alt draws from the centre.
+    const dragShape = (mode: ShapeMode, e: paper.MouseEvent) => {
+      window.clearTimeout(deferTimerID.current);
+      const start = shapeStart.current;
+      if (!path || !start) return;
+      const { shift, alt } = e.modifiers;
+      const { arrowHeads, polygonSides, starPoints } = drawCtrl;
+      const shape = getShapeGeometry(
+        mode,
+        [start.x, start.y],
+        [e.point.x, e.point.y],
+        {
+          constrain: shift,
+          fromCenter: alt,
+          arrowHeads,
+          arrowHeadSize: Math.max(drawCtrl.lineWidth * 3, 20),
+          polygonSides,
+          starPoints,
+        }
+      );
+      const { segments, closed } = getShapePath(shape);
+      path.segments = segments;
+      path.closed = closed;
+    };
     const moveSelected = (delta: paper.Point) => {
       chosenItems.forEach((item) => item.translate(delta));
+      previewItems(chosenItems);
       path?.translate(delta);
       rotateHandle?.translate(delta);
     };
@@ -408,6 +865,7 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
             path.rotate(angle, center);
             rotateHandle?.rotate(angle, center);
             chosenItems.forEach((item) => item?.rotate(angle, center));
+            previewItems(chosenItems);
           } else {
             // resize selected items
             const moveP = segment.point;
@@ -420,8 +878,10 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
             path.scale(scale, baseP);
             chosenItems.forEach((item) => {
               item.scale(scale, baseP);
-              item.strokeWidth *= scale;
+              // text boxes scale as a whole, with their matrix.
+              if (!isRichText(item)) item.strokeWidth *= scale;
             });
+            previewItems(chosenItems);
 
             // reposition the rotate handle.
             if (!rotateHandle) return;
@@ -434,12 +894,25 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
           moveSelected(e.delta);
         }
       },
-      text: null,
+      text(e: paper.MouseEvent) {
+        const t = richText.current;
+        const layout = textLayout.current;
+        if (!t || !layout || !textDrag.current) return;
+        const local = t.globalToLocal(e.point);
+        if (textDrag.current === "resize") {
+          const data = getRichTextData(t);
+          const width = Math.max(local.x, data.fontSize);
+          return updateText({ ...data, width });
+        }
+        const [anchor] = textSelection.current;
+        selectText(anchor, getIndexAt(layout, local.x, local.y));
+      },
       rect(e: paper.MouseEvent) {
         // cancel previous render timer.
         window.clearTimeout(deferTimerID.current);
         resizeRect(e, false);
       },
+      ...forShapes((mode) => (e: paper.MouseEvent) => dragShape(mode, e)),
       picture: null,
     }[paperMode];
 
@@ -450,32 +923,53 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
     const replaced = useRef(new Map<string, paper.Item>());
 
     const { globalEraser, pixelEraser } = drawCtrl;
-    const itemGrid = useMemo(() => {
-      if (!/^(erase|select)$/.test(mode)) return [];
-      const items =
-        globalEraser &&
-        ((mode === "erase" && !pixelEraser) || mode === "select")
-          ? teamGroup
-          : group;
-      return gernerateGrid(items, width, height);
-    }, [group, width, height, mode, teamGroup, globalEraser, pixelEraser]);
+    const teamReach =
+      globalEraser && ((mode === "erase" && !pixelEraser) || mode === "select");
+    // the strokes in the bounds, of everyone when the tool reaches them.
+    const searchItems = (bounds: paper.Rectangle, team = teamReach) =>
+      spatialIndex.current
+        .search(bounds)
+        .filter((item) => isInOpenLayer(item) && (team || isSelfItem(item)));
+
+    // the strokes of the outermost groups of the given ones, those the tool
+    // reaches.
+    const expandGroups = (uids: string[]) =>
+      DrawState.expandGroups(mergedGroups, uids).filter((uid) => {
+        const item = paintedItems.current.get(uid);
+        return !!item && isInOpenLayer(item) && (teamReach || isSelfItem(item));
+      });
+
+    const getNearestItem = (point: paper.Point) => {
+      const [item] = spatialIndex.current.nearest([point.x, point.y], {
+        maxDistance: scope.current.settings.hitTolerance,
+        distance: (item) =>
+          isInOpenLayer(item) && (teamReach || isSelfItem(item))
+            ? getDistance(item, point)
+            : Infinity,
+      });
+      return item;
+    };
 
     const handleToolDrag = (e: paper.ToolEvent) => {
-      const layer = scope.current.project.layers[1];
-      if (paperMode !== "erase" || !layer) return;
+      if (paperMode !== "erase") return;
       const ew = eraserWidth;
 
-      const hitOption = { class: paper.Path, stroke: true, tolerance: ew / 2 };
-      const bounds = new Rectangle(e.point.subtract(ew), new Size(ew, ew));
+      const hitOption = {
+        class: paper.Path,
+        stroke: true,
+        // pressure strokes are filled outlines.
+        fill: true,
+        tolerance: ew / 2,
+      };
+      const bounds = new Rectangle(e.point.subtract(ew / 2), new Size(ew, ew));
+      const touched: paper.Item[] = [];
 
-      getGridItems(itemGrid, bounds).forEach((item) => {
+      searchItems(bounds).forEach((item) => {
         if (erased.current.has(item.name)) return;
-        if (!item.parent) return;
         item.hitTestAll(e.point, hitOption)?.forEach(({ item }) => {
           if (!(item instanceof paper.Path)) return;
           let topItem: paper.PathItem = item;
-          while (topItem.parent !== layer) {
-            if (!(topItem.parent instanceof paper.PathItem)) break;
+          while (topItem.parent instanceof paper.PathItem) {
             topItem = topItem.parent;
           }
           const { name } = topItem;
@@ -491,31 +985,69 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
             const sub = item.subtract(circle, { trace: false });
             item.replaceWith(sub);
             if (topItem === item) {
-              setGridItem(itemGrid, sub, item);
+              sub.name = name;
+              spatialIndex.current.insert(sub, sub.strokeBounds);
+              spatialIndex.current.remove(item);
+              paintedItems.current.set(name, sub);
+              shownItems.current.delete(item);
+              shownItems.current.add(sub);
               topItem = sub;
             }
             replaced.current.set(name, topItem);
           } else {
-            topItem.opacity = 0.5;
+            if (!topItem.guide) topItem.opacity /= 2;
             topItem.guide = true;
             erased.current.add(name);
+            // the rest of its group goes with it.
+            expandGroups([name]).forEach((uid) => {
+              const member = paintedItems.current.get(uid);
+              if (!member || erased.current.has(uid)) return;
+              member.opacity /= 2;
+              member.guide = true;
+              erased.current.add(uid);
+              touched.push(member);
+            });
           }
+          touched.push(topItem);
         });
       });
+      previewItems(touched);
     };
 
     const pathClones = useRef<paper.Path[]>([]);
+    const upPressurePath = () => {
+      const samples = pressureSamples.current;
+      pressureSamples.current = [];
+      if (!path || samples.length <= 1) {
+        if (!pathClones.current.length) unrasterizeCanvas();
+        return setPath(undefined);
+      }
+      const pressure: PressureData = { width: drawCtrl.lineWidth, samples };
+      path.segments = toSegments(getPressureOutline(pressure));
+      path.simplify(0.5);
+      path.data.pressure = pressure;
+      // committed strokes are hit by the erasers, unlike the live path.
+      path.guide = false;
+      if (renderSlow.current) pathClones.current.push(path.clone());
+      const pathData = path.exportJSON();
+      onChange((prev) => DrawState.addStroke(prev, pathData, layer));
+      setPath(undefined);
+    };
     const handleUp = {
       draw() {
+        if (isPressureStroke) return upPressurePath();
+        window.clearTimeout(holdTimerID.current);
         if (!path || path.segments.length <= 1) {
           // if canvas is clicked without any path in queue.
           if (!pathClones.current.length) unrasterizeCanvas();
           return;
         }
-        path.simplify();
+        if (!recognized.current) path.simplify();
+        recognized.current = false;
+        path.guide = false;
         if (renderSlow.current) pathClones.current.push(path.clone());
         const pathData = path.exportJSON();
-        onChange((prev) => DrawState.addStroke(prev, pathData));
+        onChange((prev) => DrawState.addStroke(prev, pathData, layer));
         setPath(undefined);
       },
       erase() {
@@ -526,7 +1058,11 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
           replaced.current.clear();
           const splitters: Splitter[] = items.map(([uid, item]) => {
             const paths = flattenCP(item);
-            paths.forEach((p) => (p.name = ""));
+            paths.forEach((p) => {
+              p.name = "";
+              // the samples no longer match what is left.
+              delete p.data.pressure;
+            });
             return [uid, paths.map((p) => p.exportJSON())];
           });
           if (!splitters.length) return;
@@ -541,18 +1077,34 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       select() {
         unrasterizeCanvas();
         if (!path) return;
-        if (Math.abs(path.area) < 1_000) return setPath(undefined);
 
         let selection: string[];
-        if (lasso) {
-          path.closePath();
-          path.simplify();
-          if (!renderSlow.current) moveDash(path);
-          const items = getGridItems(itemGrid, path.bounds);
-          selection = checkLasso(items, path);
+        if (Math.abs(path.area) < 1_000) {
+          // a tap selects the stroke closest to it.
+          const item = lasso ? undefined : getNearestItem(path.bounds.center);
+          if (!item) return setPath(undefined);
+          selection = expandGroups([item.name]);
+          // a group is selected as a whole.
+          let bounds = item.strokeBounds;
+          selection.forEach((uid) => {
+            const member = paintedItems.current.get(uid);
+            if (member) bounds = bounds.unite(member.strokeBounds);
+          });
+          const { segments } = new Path.Rectangle({
+            rectangle: bounds,
+            insert: false,
+          });
+          path.segments = segments;
+          path.selected = true;
         } else {
-          const items = getGridItems(itemGrid, path.bounds);
-          selection = checkLasso(items, path);
+          if (lasso) {
+            path.closePath();
+            path.simplify();
+            if (!renderSlow.current) moveDash(path);
+          }
+          selection = expandGroups(checkLasso(searchItems(path.bounds), path));
+        }
+        if (!lasso) {
           const link = new Path();
           const { topCenter } = path.bounds;
           link.add(topCenter, topCenter.subtract(new Point(0, 100)));
@@ -570,30 +1122,40 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
         updateMutation();
       },
       text(e: paper.MouseEvent) {
-        if (pointText.current) {
+        // the caret was placed or the box resized.
+        if (textDrag.current) return void (textDrag.current = undefined);
+        if (richText.current) {
           submitText();
           return handleTextCursor(e);
         }
-        const [, l1] = scope.current.project.layers;
-        if (!l1) return;
-
-        const item = getClickedText(l1, e.point);
-        const t =
-          item && (isSelfItem(item) || globalEraser)
-            ? item
-            : startText(e.point);
-        t.justification = "left";
-        pointText.current = t;
+        const item = getClickedText(searchAround(e.point), e.point);
+        let t: paper.Group;
+        if (item && (isSelfItem(item) || globalEraser)) {
+          if (item instanceof paper.PointText) {
+            originalText.current = item;
+            t = fromPointText(item);
+          } else {
+            originalText.current = getRichTextData(item);
+            t = item;
+          }
+        } else {
+          t = startRichText(e.point, createRichText({ color: drawCtrl.color }));
+        }
+        richText.current = t;
+        const layout = renderRichText(t, getRichTextData(t));
+        textLayout.current = layout;
         prevTextData.current = t.exportJSON();
+        const local = t.globalToLocal(e.point);
+        const index = item ? getIndexAt(layout, local.x, local.y) : 0;
+        textSelection.current = [index, index];
 
-        // hide pointText before rasterizing;
+        // hide the text and its caret before rasterizing;
         if (renderSlow.current) t.visible = false;
         requestAnimationFrame(() => {
           rasterizeCanvas();
           t.visible = true;
+          updateText();
         });
-
-        toggleTextTool(t, renderSlow.current);
       },
       rect() {
         if (!path || Math.abs(path.area) < 1) {
@@ -601,28 +1163,46 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
           if (!pathClones.current.length) unrasterizeCanvas();
           return setPath(undefined);
         }
-        if (renderSlow.current) pathClones.current.push(path.clone());
-
-        const pathData = path.exportJSON();
-        onChange((prev) => DrawState.addStroke(prev, pathData));
-        setPath(undefined);
+        addShape(path);
       },
+      ...forShapes(() => () => {
+        // lines have no area.
+        if (!path || path.length < 1) {
+          if (!pathClones.current.length) unrasterizeCanvas();
+          return setPath(undefined);
+        }
+        addShape(path);
+      }),
       picture(e: paper.MouseEvent) {
         const { imageSrc } = drawCtrl;
         if (!imageSrc) return;
-        const raster = new Raster(imageSrc);
-        raster.position = e.point;
-        raster.onLoad = () => {
-          const itemData = raster.exportJSON();
-          onChange((prev) => DrawState.addStroke(prev, itemData));
-          raster.remove();
-        };
+        addPicture(imageSrc, e.point);
       },
     }[paperMode];
 
+    const addPicture = (src: string, point: paper.Point) => {
+      const raster = new Raster(src);
+      raster.position = point;
+      raster.onLoad = () => {
+        const itemData = raster.exportJSON();
+        onChange((prev) => DrawState.addStroke(prev, itemData, layer));
+        raster.remove();
+      };
+    };
+
+    const addShape = (path: paper.Path) => {
+      if (renderSlow.current) pathClones.current.push(path.clone());
+
+      const pathData = path.exportJSON();
+      onChange((prev) => DrawState.addStroke(prev, pathData, layer));
+      setPath(undefined);
+    };
+
     const [cursor, setCursor] = useState("auto");
     useEffect(() => {
-      if (/^(text|select|rect)$/.test(paperMode)) {
+      if (
+        /^(text|select|rect|ellipse|line|arrow|polygon|star)$/.test(paperMode)
+      ) {
         setCursor("crosshair");
       } else if (paperMode === "selected") {
         // set resize cursor for the bottom-right rect selection
@@ -660,11 +1240,22 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       return drawState.getStrokeMap().has(item.name);
     };
 
+    const searchAround = (point: paper.Point) => {
+      const tolerance = scope.current.settings.hitTolerance;
+      return searchItems(
+        new Rectangle(point.subtract(tolerance), point.add(tolerance)),
+        true
+      );
+    };
+
     const handleTextCursor = (e: paper.MouseEvent) => {
-      if (pointText.current) return setCursor("auto");
-      const layer = scope.current.project.layers[1];
-      if (!layer) return;
-      const item = getClickedText(layer, e.point);
+      const t = richText.current;
+      if (t) {
+        const local = t.globalToLocal(e.point);
+        if (isOnResizeHandle(t, local)) return setCursor("ew-resize");
+        return setCursor(t.internalBounds.contains(local) ? "text" : "auto");
+      }
+      const item = getClickedText(searchAround(e.point), e.point);
       if (item && (isSelfItem(item) || globalEraser)) setCursor("text");
       else setCursor("crosshair");
     };
@@ -673,9 +1264,11 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       selected: handleSelectedCursor,
       text: handleTextCursor,
       ...{ select: null, draw: null, erase: null, rect: null, picture: null },
+      ...forShapes(() => null),
     }[paperMode];
 
     const handleKeyDown = (e: paper.KeyEvent) => {
+      if (paperMode === "text") return handleTextKey(e);
       if (paperMode !== "selected") return;
       const delta = {
         up: new Point(0, -10),
@@ -689,8 +1282,19 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       toggleSelectTool(false);
     };
 
+    const handlePasteKey = (e: paper.KeyEvent) => {
+      if (e.modifiers.command && e.key === "v") paste().catch(console.error);
+    };
+
     const handleKeyUp = {
       selected(e: paper.KeyEvent) {
+        handlePasteKey(e);
+        if (e.modifiers.command && e.key === "c") {
+          copySelected().catch(console.error);
+        }
+        if (e.modifiers.command && e.key === "x") {
+          cutSelected().catch(console.error);
+        }
         if (/^(delete|backspace)$/.test(e.key)) deleteSelected();
         if (/^(up|down|left|right)$/.test(e.key)) updateMutation();
         if (/escape/.test(e.key)) resetSelect();
@@ -698,9 +1302,50 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       text(e: paper.KeyEvent) {
         if (/escape/.test(e.key)) submitText();
       },
-      ...{ select: null, draw: null, erase: null, rect: null, picture: null },
+      ...{
+        select: handlePasteKey,
+        draw: handlePasteKey,
+        erase: handlePasteKey,
+        rect: handlePasteKey,
+        picture: handlePasteKey,
+      },
+      ...forShapes(() => handlePasteKey),
     }[paperMode];
 
+    // where pasted content goes, undefined while the pointer is outside.
+    const pointer = useRef<paper.Point>();
+
+    // the last pointer event, shared once a frame: the live path is
+    // serialized whole each time.
+    const awarenessEvent = useRef<{ point: paper.Point; type: string }>();
+    const awarenessFrame = useRef<number>();
+    const flushAwareness = useEvent(() => {
+      awarenessFrame.current = undefined;
+      const e = awarenessEvent.current;
+      awarenessEvent.current = undefined;
+      if (!e || !onAwarenessChange) return;
+      const { x, y } = e.point;
+      const drawing =
+        e.type === "mousedrag" &&
+        /^(draw|rect|ellipse|line|arrow|polygon|star)$/.test(paperMode);
+      const pathData = drawing ? path?.exportJSON() : undefined;
+      onAwarenessChange({ cursor: [x, y], path: pathData });
+    });
+    const cancelAwareness = () => {
+      if (awarenessFrame.current !== undefined) {
+        cancelAnimationFrame(awarenessFrame.current);
+      }
+      awarenessFrame.current = undefined;
+      awarenessEvent.current = undefined;
+    };
+    useEffect(() => cancelAwareness, []);
+
+    const shareAwareness = (e: paper.MouseEvent) => {
+      if (!onAwarenessChange) return;
+      awarenessEvent.current = { point: e.point, type: e.type };
+      awarenessFrame.current ??= requestAnimationFrame(flushAwareness);
+    };
+
     useEffect(() => {
       if (readonly) return;
 
@@ -711,11 +1356,23 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
           if (handler) return handler(e);
         };
       };
+      const shared = (handler: Handler<paper.MouseEvent>) => {
+        return activate((e: paper.MouseEvent) => {
+          pointer.current = e.point;
+          shareAwareness(e);
+          if (handler) return handler(e);
+        });
+      };
       const { view, tool } = scope.current;
-      view.onMouseDown = activate(handleDown);
-      view.onMouseDrag = activate(handleDrag);
-      view.onMouseUp = activate(handleUp);
-      view.onMouseMove = activate(handleMove);
+      view.onMouseDown = shared(handleDown);
+      view.onMouseDrag = shared(handleDrag);
+      view.onMouseUp = shared(handleUp);
+      view.onMouseMove = shared(handleMove);
+      view.onMouseLeave = () => {
+        pointer.current = undefined;
+        cancelAwareness();
+        onAwarenessChange?.({ cursor: undefined });
+      };
       tool.onMouseDrag = activate(handleToolDrag);
       tool.onKeyDown = activate(handleKeyDown);
       tool.onKeyUp = activate(handleKeyUp);
@@ -726,11 +1383,27 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       const mutations: Mutation[] = chosenItems.map((p) => {
         const { name } = p;
         p.name = "";
-        return [name, p.exportJSON()];
+        const pathData = exportStroke(p);
+        p.name = name;
+        return [name, pathData];
       });
       onChange((prev) => DrawState.mutateStrokes(prev, mutations));
     };
 
+    const moveSelectedToLayer = (layer: string) => {
+      if (!chosenItems.length) return;
+      const mutations: Mutation[] = chosenItems.map((item) => {
+        const { name } = item;
+        item.name = "";
+        const pathData = exportStroke(item);
+        item.name = name;
+        return [name, pathData];
+      });
+      onChange((prev) =>
+        DrawState.mutateStrokes(prev, mutations, Date.now(), layer)
+      );
+    };
+
     const deleteSelected = () => {
       resetSelect();
       if (!chosenIDs.length) return;
@@ -743,6 +1416,20 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       updateMutation();
     };
 
+    const restackSelected = (mode: RestackMode) => {
+      if (!path || !chosenIDs.length) return;
+      const overlapping = new Set(
+        spatialIndex.current.search(path.bounds).map((item) => item.name)
+      );
+      const orders = DrawState.getRestackOrders(
+        mergedStrokes,
+        chosenIDs,
+        mode,
+        ({ uid }) => overlapping.has(uid)
+      );
+      onChange((prev) => DrawState.restackStrokes(prev, orders));
+    };
+
     const duplicateSelected = () => {
       scope.current.activate();
       if (!path || !chosenItems.length) return;
@@ -755,63 +1442,443 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
       rotateHandle?.translate(transP);
 
       copies.forEach((p) => (p.name = ""));
-      const pathDataList = copies.map((item) => item.exportJSON());
-      onChange((prev) =>
-        DrawState.addStrokeList(prev, pathDataList, setChosenIDs)
-      );
+      const pathDataList = copies.map(exportStroke);
+      onChange((prev) => {
+        let newIDs: string[] = [];
+        const next = DrawState.addStrokeList(
+          prev,
+          pathDataList,
+          (IDs) => setChosenIDs((newIDs = IDs)),
+          layer
+        );
+        // the copies are grouped like the originals.
+        const copyIDs = new Map(
+          chosenItems.map(({ name }, i): [string, string] => [
+            name,
+            newIDs[i] ?? "",
+          ])
+        );
+        const groups = DrawState.copyGroups(mergedGroups, copyIDs);
+        return DrawState.setGroups(next, groups);
+      });
       showSelectTool();
     };
 
-    const pointText = useRef<paper.PointText>();
+    const copySelected = async () => {
+      scope.current.activate();
+      const [first, ...rest] = chosenItems;
+      if (!first) return;
+      const bounds = rest.reduce(
+        (united, item) => united.unite(item.strokeBounds),
+        first.strokeBounds
+      );
+      const { width, height } = bounds;
+      const origin = bounds.topLeft.multiply(-1);
+      const copies = chosenItems.map((item) => {
+        const copy = item.clone({ insert: false });
+        copy.visible = true;
+        copy.name = "";
+        copy.translate(origin);
+        return copy;
+      });
+      const copied = copies.map((copy, i): [string, string] => [
+        chosenItems[i]?.name ?? "",
+        copy.exportJSON(),
+      ]);
+      const data = toClipboardStrokes(copied, mergedGroups, width, height);
+      const strokes = data.strokes.map(
+        (pathData): Stroke => ({
+          type: "STROKE",
+          uid: "",
+          pathData,
+          timestamp: 0,
+        })
+      );
+      const svg = renderSVG(strokes, width, height, { background: null });
+
+      const group = new Group({ children: copies, insert: false });
+      const raster = group.rasterize({
+        resolution: 72 * scope.current.view.pixelRatio,
+        insert: false,
+      });
+      const png = canvasToBlob(raster.canvas, "image/png");
+      png.then(
+        () => releaseCanvas(raster.canvas),
+        () => releaseCanvas(raster.canvas)
+      );
+      await writeClipboard({
+        [CLIPBOARD_TYPE]: new Blob([JSON.stringify(data)], {
+          type: CLIPBOARD_TYPE,
+        }),
+        "image/svg+xml": new Blob([svg], { type: "image/svg+xml" }),
+        "image/png": png,
+      });
+    };
+
+    const cutSelected = async () => {
+      if (!chosenIDs.length) return;
+      await copySelected();
+      deleteSelected();
+    };
+
+    const pasteStrokes = (data: ClipboardStrokes, point: paper.Point) => {
+      const size = new Point(data.width, data.height);
+      const offset = point.subtract(size.divide(2));
+      const holder = new Group({ insert: false });
+      // indexes of the strokes that could be read, and their moved pathData.
+      const pasted: [number, string][] = [];
+      data.strokes.forEach((pathData, i) => {
+        try {
+          const item = holder.importJSON(pathData);
+          item.translate(offset);
+          pasted.push([i, item.exportJSON()]);
+        } catch (e) {
+          console.error(e);
+        }
+      });
+      holder.removeChildren();
+      if (!pasted.length) return;
+      onChange((prev) => {
+        let newIDs: string[] = [];
+        const next = DrawState.addStrokeList(
+          prev,
+          pasted.map(([, pathData]) => pathData),
+          (IDs) => (newIDs = IDs),
+          layer
+        );
+        const uids: (string | undefined)[] = [];
+        pasted.forEach(([i], k) => (uids[i] = newIDs[k]));
+        return DrawState.setGroups(next, getPastedGroups(data, uids));
+      });
+    };
+
+    const paste = async () => {
+      const pasted = await readClipboard();
+      if (!pasted) return;
+      scope.current.activate();
+      const point = pointer.current ?? scope.current.view.center;
+      const { type, blob } = pasted;
+      if (type === CLIPBOARD_TYPE) {
+        const data = parseClipboardStrokes(await blob.text());
+        if (data) pasteStrokes(data, point);
+      } else if (type === "image/svg+xml" || type === "text/plain") {
+        const strokes = importSVGStrokes(await blob.text(), point);
+        if (!strokes.length) return;
+        onChange((prev) =>
+          DrawState.addStrokeList(prev, strokes, undefined, layer)
+        );
+      } else {
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        addPicture(encodeDataURL(type, bytes), point);
+      }
+    };
+
+    const groupSelected = () => {
+      if (chosenIDs.length < 2) return;
+      const members = DrawState.getGroupRoots(mergedGroups, chosenIDs);
+      onChange((prev) => DrawState.groupStrokes(prev, members));
+    };
+
+    const ungroupSelected = () => {
+      const groupIDs = DrawState.getGroupRoots(mergedGroups, chosenIDs).filter(
+        (uid) => mergedGroups.members.has(uid)
+      );
+      if (!groupIDs.length) return;
+      onChange((prev) => DrawState.ungroupStrokes(prev, groupIDs));
+    };
+
+    const richText = useRef<paper.Group>();
     const prevTextData = useRef("");
+    // restored when editing ends without changes.
+    const originalText = useRef<RichTextData | paper.PointText>();
+    const textLayout = useRef<TextLayout>();
+    // the anchor and the focus of the selection.
+    const textSelection = useRef<[number, number]>([0, 0]);
+    // the style set at a collapsed caret, for the text typed next.
+    const typingStyle = useRef<TextStyle>();
+    const textDrag = useRef<"select" | "resize">();
+    const [, setTextOverlay] = usePaperItem<paper.Group>();
+
+    const getTextRange = (): [number, number] => {
+      const [anchor, focus] = textSelection.current;
+      return [Math.min(anchor, focus), Math.max(anchor, focus)];
+    };
+    const getTextTool = (): TextToolState | undefined => {
+      const item = richText.current;
+      if (!item) return;
+      const data = getRichTextData(item);
+      const selection = getTextRange();
+      const style = typingStyle.current ?? getRangeStyle(data, ...selection);
+      return { item, data, selection, style };
+    };
+
+    // re-renders the edited text with new data, then its caret.
+    const updateText = (data?: RichTextData) => {
+      const t = richText.current;
+      if (!t) return;
+      scope.current.activate();
+      if (data) {
+        textLayout.current = renderRichText(t, data);
+        previewItems([t]);
+      }
+      const layout = textLayout.current;
+      if (!layout) return;
+      const overlay = paintTextOverlay(t, layout, getTextRange());
+      scope.current.project.layers[2]?.addChild(overlay);
+      setTextOverlay(overlay);
+      toggleTextTool(getTextTool(), renderSlow.current);
+    };
+    const selectText = (anchor: number, focus: number) => {
+      textSelection.current = [anchor, focus];
+      typingStyle.current = undefined;
+      updateText();
+    };
+
+    const handleTextKey = (e: paper.KeyEvent) => {
+      const t = richText.current;
+      const layout = textLayout.current;
+      if (!t || !layout) return;
+      const data = getRichTextData(t);
+      const { length } = getPlainText(data);
+      const [anchor, focus] = textSelection.current;
+      const [from, to] = getTextRange();
+      const { shift, command } = e.modifiers;
+      const moveTo = (index: number) => {
+        selectText(shift ? anchor : index, index);
+      };
+      const replace = (text: string, start = from, end = to) => {
+        const style = typingStyle.current;
+        typingStyle.current = undefined;
+        const index = start + text.length;
+        textSelection.current = [index, index];
+        updateText(replaceText(data, start, end, text, style));
+      };
+
+      if (command) {
+        const format = ({ b: "bold", i: "italic", u: "underline" } as const)[
+          e.key
+        ];
+        if (format) {
+          const style = typingStyle.current ?? getRangeStyle(data, from, to);
+          mutateText({ [format]: !style[format] });
+        } else if (e.key === "a") {
+          selectText(0, length);
+        } else {
+          return;
+        }
+        return void e.preventDefault();
+      }
+
+      const collapsed = from === to;
+      switch (e.key) {
+        case "backspace":
+          if (!collapsed) replace("");
+          else if (from > 0) replace("", from - 1, from);
+          break;
+        case "delete":
+          if (!collapsed) replace("");
+          else if (to < length) replace("", from, to + 1);
+          break;
+        case "left":
+          moveTo(collapsed || shift ? Math.max(focus - 1, 0) : from);
+          break;
+        case "right":
+          moveTo(collapsed || shift ? Math.min(focus + 1, length) : to);
+          break;
+        case "up":
+          moveTo(getVerticalIndex(layout, focus, -1));
+          break;
+        case "down":
+          moveTo(getVerticalIndex(layout, focus, 1));
+          break;
+        case "home":
+          moveTo(getLineBounds(layout, focus)[0] ?? focus);
+          break;
+        case "end":
+          moveTo(getLineBounds(layout, focus)[1] ?? focus);
+          break;
+        case "enter":
+          replace("\n");
+          break;
+        case "escape":
+          return;
+        default:
+          if (!e.character) return;
+          replace(e.character);
+      }
+      e.preventDefault();
+    };
+
     const cancelText = useEvent(() => {
       unrasterizeCanvas();
-      if (!pointText.current?.name) {
-        pointText.current?.remove();
-      }
-      pointText.current = undefined;
+      const t = richText.current;
+      const original = originalText.current;
+      if (!t?.name) t?.remove();
+      else if (original instanceof paper.PointText) t.replaceWith(original);
+      else if (original) renderRichText(t, original);
+      renderPort?.postMessage({ type: "clearPreview" });
+      richText.current = undefined;
+      originalText.current = undefined;
+      textLayout.current = undefined;
+      typingStyle.current = undefined;
+      textDrag.current = undefined;
+      setTextOverlay(undefined);
       toggleTextTool(undefined, renderSlow.current);
     });
 
     const submitText = useEvent(() => {
-      const t = pointText.current;
+      const t = richText.current;
       if (!t) return;
+      const { name } = t;
+      const pathData = t.exportJSON();
+      const content = getPlainText(getRichTextData(t));
+      // puts back the stroke as it was, until the state is rendered.
       cancelText();
-      if (t.exportJSON() === prevTextData.current) return;
-      const { content, name } = t;
-      t.name = "";
+      if (pathData === prevTextData.current) return;
       // if text content empty
       if (!content) {
         // erase existing text item
         if (name) onChange((prev) => DrawState.eraseStrokes(prev, [name]));
         return;
       }
-      const pathData = t.exportJSON();
       if (!name) {
         // add new text item
-        onChange((prev) => DrawState.addStroke(prev, pathData));
+        onChange((prev) => DrawState.addStroke(prev, pathData, layer));
       } else {
         // mutate existing text item
         onChange((prev) => DrawState.mutateStrokes(prev, [[name, pathData]]));
       }
     });
+    const mutateText = (updated: TextMutation) => {
+      const t = richText.current;
+      if (!t) return;
+      const { fontFamily, width, ...style } = updated;
+      let data = getRichTextData(t);
+      if (fontFamily) data = { ...data, fontFamily };
+      if (width) data = { ...data, width };
+      const [from, to] = getTextRange();
+      if (Object.keys(style).length && from === to) {
+        const prev = typingStyle.current ?? getStyleAt(data, from);
+        typingStyle.current = { ...prev, ...style };
+      } else if (Object.keys(style).length) {
+        data = formatText(data, from, to, style);
+      }
+      updateText(data);
+    };
     const mutatePointText = (cb: (prev: paper.PointText) => void) => {
-      const pt = pointText.current;
-      if (!pt) return;
+      const t = richText.current;
+      if (!t) return;
       scope.current.activate();
+      let data = getRichTextData(t);
+      const content = getPlainText(data);
+      const pt = new paper.PointText({
+        content,
+        fontFamily: data.fontFamily,
+        fontSize: data.fontSize,
+        fillColor: data.color,
+        insert: false,
+      });
       cb(pt);
-      toggleTextTool(new Proxy(pt, {}), renderSlow.current);
+      const style: TextStyle = {};
+      const fontSize = Number(pt.fontSize);
+      const color = pt.fillColor?.toCSS(true);
+      if (fontSize !== data.fontSize) style.fontSize = fontSize;
+      if (color && color !== new paper.Color(data.color).toCSS(true)) {
+        style.color = color;
+      }
+      data = { ...data, fontFamily: pt.fontFamily };
+      if (pt.content !== content) {
+        data = replaceText(data, 0, content.length, pt.content);
+      }
+      if (Object.keys(style).length) {
+        data = formatText(data, 0, pt.content.length, style);
+      }
+      updateText(data);
     };
 
     useEffect(() => {
       if (mode === "text") return submitText;
     }, [mode, submitText]);
 
+    function exportImage(
+      options: ExportImageOptions & { output: "dataURL" }
+    ): Promise<string>;
+    function exportImage(options?: ExportImageOptions): Promise<Blob>;
+    async function exportImage(
+      options: ExportImageOptions = {}
+    ): Promise<string | Blob> {
+      const {
+        format = "png",
+        scale = 1,
+        background = "#fff",
+        includeBackgroundImage = true,
+        quality,
+        output = "blob",
+      } = options;
+      scope.current.activate();
+      const [l0, l1] = scope.current.project.layers;
+      if (!l0 || !l1) throw new Error("paper scope is not ready");
+
+      const l1Visible = l1.visible;
+      l1.visible = true;
+      const recull = uncullItems();
+      // move pdf image above clip mask before rasterizing.
+      const withImg = includeBackgroundImage && imgRaster?.loaded;
+      if (withImg) l1.insertChild(1, imgRaster);
+      const layerImg = l1.rasterize({ resolution: 72 * scale, insert: false });
+      if (withImg) imgRaster.addTo(l0);
+      recull();
+      l1.visible = l1Visible;
+
+      // an infinite canvas is exported as far as its content goes.
+      const page = new Rectangle(projSize);
+      const area = infinite ? layerImg.bounds.unite(page) : page;
+      const { canvas, context } = createVirtualCanvas(
+        Math.round(area.width * scale),
+        Math.round(area.height * scale)
+      );
+      // jpeg has no alpha channel.
+      const bgColor = background ?? (format === "jpeg" ? "#fff" : null);
+      if (bgColor) {
+        context.fillStyle = bgColor;
+        context.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      const { x, y, width: bw, height: bh } = layerImg.bounds;
+      context.drawImage(
+        layerImg.canvas,
+        (x - area.x) * scale,
+        (y - area.y) * scale,
+        bw * scale,
+        bh * scale
+      );
+      releaseCanvas(layerImg.canvas);
+
+      const type = `image/${format}`;
+      try {
+        if (output === "dataURL") return canvas.toDataURL(type, quality);
+        return await canvasToBlob(canvas, type, quality);
+      } finally {
+        releaseCanvas(canvas);
+      }
+    }
+
     useImperativeHandle(ref, () => ({
       deleteSelected,
       duplicateSelected,
+      copySelected,
+      cutSelected,
+      paste,
       mutateStyle,
+      mutateText,
       mutatePointText,
+      moveSelectedToLayer,
+      groupSelected,
+      ungroupSelected,
+      bringToFront: () => restackSelected("front"),
+      sendToBack: () => restackSelected("back"),
+      bringForward: () => restackSelected("forward"),
+      sendBackward: () => restackSelected("backward"),
+      exportImage,
       getPaperScope() {
         return scope.current;
       },
@@ -852,7 +1919,12 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
         prevScale.current = scale;
         scope.current.settings.hitTolerance /= dScale;
 
-        if (last) {
+        if (last && infinite) {
+          view.scale(dScale, originPorjP);
+          unrasterizeLayer();
+          currCenter.current = view.center;
+          setCurrScale(scale);
+        } else if (last) {
           scaleView(view, dScale, projSize, originPorjP)
             .then(() => putCenterBack(view, projSize))
             .then(() => unrasterizeLayer())
@@ -864,7 +1936,7 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
         }
       },
       {
-        scaleBounds: { min: 1, max: 5 },
+        scaleBounds: { min: infinite ? MIN_INFINITE_SCALE : 1, max: 5 },
         rubberband: 0.5,
         target: canvasEl,
       }
@@ -872,7 +1944,8 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
 
     useWheel(
       ({ event, delta, ctrlKey, first, last }) => {
-        if (prevScale.current === 1 || ctrlKey) return;
+        // a page fits the view unless zoomed in.
+        if ((!infinite && prevScale.current === 1) || ctrlKey) return;
         event.preventDefault();
 
         if (first) beforeViewDragged();
@@ -880,6 +1953,14 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
         const { view } = scope.current;
         const deltaP = new paper.Point(delta);
         const transP = P_ZERO.subtract(deltaP).divide(view.zoom);
+        if (infinite) {
+          view.translate(transP);
+          if (last) {
+            unrasterizeLayer();
+            currCenter.current = view.center;
+          }
+          return;
+        }
         const { x: tx, y: ty } = transP;
         const targetCenter = getTargetCenter(view, projSize);
         const { x: dx, y: dy } = view.center.subtract(targetCenter);
@@ -909,6 +1990,7 @@ const DrawRaw = React.forwardRef<DrawRefType, DrawPropType>(
         data-readonly={readonly}
         {...touchHandler}
         {...rightClickHandler}
+        {...penHandler}
       >
         <canvas ref={canvasEl} className="draw-canvas" />
       </div>
@@ -928,52 +2010,81 @@ function usePaperItem<T extends paper.Item>() {
   return [item, setItem] as const;
 }
 
-const paintStroke = (() => {
-  const cacheMap = new WeakMap<
-    paper.Layer,
-    Map<string, { stroke: Stroke; item: paper.Item }>
-  >();
-
-  return (stroke: Stroke, layer: paper.Layer) => {
-    const { pathData, uid } = stroke;
-    let item: paper.Item;
-
-    const cache = cacheMap.get(layer) ?? new Map();
-    cacheMap.set(layer, cache);
-    const cached = cache.get(uid);
+const paintStroke = (stroke: Stroke, group: paper.Group) => {
+  let item: paper.Item;
+  try {
+    item = group.importJSON(stroke.pathData);
+  } catch (e) {
+    console.error(e);
+    return;
+  }
+  item ??= new paper.Item();
+  item.name = stroke.uid;
+  // older documents stored the guide flag of the live path.
+  item.guide = false;
+  return item;
+};
 
-    if (cached?.stroke === stroke) {
-      layer.addChild(cached.item);
-      item = cached.item;
-    } else {
-      try {
-        item = layer.importJSON(pathData);
-      } catch (e) {
-        console.error(e);
-        return;
-      }
-      item ??= new paper.Item();
-      item.name = uid;
-      cache.set(uid, { item, stroke });
+const paintPeer = (peer: AwarenessState, layer: paper.Layer, unit: number) => {
+  const items: paper.Item[] = [];
+  const color = new Color(peer.color);
+  if (peer.path) {
+    try {
+      const preview = layer.importJSON(peer.path);
+      preview.opacity = 0.6;
+      preview.guide = true;
+      items.push(preview);
+    } catch (e) {
+      console.error(e);
     }
-    item.opacity = 1;
-    item.guide = false;
-    return item;
-  };
-})();
+  }
+  if (peer.cursor) {
+    const point = new Point(peer.cursor);
+    const dot = new Path.Circle({
+      center: point,
+      radius: 6 * unit,
+      fillColor: color,
+      strokeColor: "#fff",
+      strokeWidth: 2 * unit,
+      guide: true,
+    });
+    layer.addChild(dot);
+    items.push(dot);
+    if (peer.name) {
+      const label = new paper.PointText({
+        point: point.add(new Point(10, 24).multiply(unit)),
+        content: peer.name,
+        fillColor: color,
+        fontSize: 14 * unit,
+        fontFamily: "Arial, sans-serif",
+        guide: true,
+      });
+      layer.addChild(label);
+      items.push(label);
+    }
+  }
+  return items;
+};
 
-const paintRects = (layers: paper.Layer[], projSize: paper.Size) => {
+const paintRects = (
+  layers: paper.Layer[],
+  projSize: paper.Size,
+  infinite = false
+) => {
   const [l0, l1, l2] = layers;
   if (!l0 || !l1 || !l2) return [];
   const bgRect = new Path.Rectangle(P_ZERO, projSize);
   const clip1 = bgRect.clone();
   const clip2 = bgRect.clone();
   bgRect.fillColor = new Color("#fff");
-  l0.addChild(bgRect);
-  l1.addChild(clip1);
-  l2.addChild(clip2);
-  l1.clipped = true;
-  l2.clipped = true;
+  // the masks are first children, also when painted again over strokes.
+  l0.insertChild(0, bgRect);
+  l1.insertChild(0, clip1);
+  l2.insertChild(0, clip2);
+  // they stay, only without clipping.
+  l1.clipped = !infinite;
+  l2.clipped = !infinite;
+  bgRect.visible = !infinite;
   return [bgRect, clip1, clip2];
 };
 
@@ -983,9 +2094,41 @@ const startRect = (point: paper.Point, drawCtrl?: DrawCtrl) => {
   const color = new Color(drawCtrl.color);
   rect.strokeWidth = drawCtrl.lineWidth;
   rect.strokeColor = color;
+  setShapeStyle(rect, drawCtrl);
   return rect;
 };
 
+const startShape = (drawCtrl: DrawCtrl, point: paper.Point) => {
+  const path = new Path();
+  path.add(point);
+  path.strokeWidth = drawCtrl.lineWidth;
+  path.strokeColor = new Color(drawCtrl.color);
+  setShapeStyle(path, drawCtrl);
+  return path;
+};
+
+const setStrokeStyle = (path: paper.Path, drawCtrl: DrawCtrl) => {
+  path.strokeCap = drawCtrl.strokeCap;
+  path.strokeJoin = drawCtrl.strokeJoin;
+  path.dashArray = drawCtrl.dashArray;
+  path.opacity = drawCtrl.opacity;
+};
+
+const setShapeStyle = (path: paper.Path, drawCtrl: DrawCtrl) => {
+  setStrokeStyle(path, drawCtrl);
+  // lines and arrows are never filled.
+  if (!drawCtrl.fillColor || /^(line|arrow)$/.test(drawCtrl.mode)) return;
+  path.fillColor = new Color(drawCtrl.fillColor);
+};
+
+const forShapes = <T,>(handler: (mode: ShapeMode) => T) => ({
+  ellipse: handler("ellipse"),
+  line: handler("line"),
+  arrow: handler("arrow"),
+  polygon: handler("polygon"),
+  star: handler("star"),
+});
+
 const startStroke = (drawCtrl: DrawCtrl, point: paper.Point, slow = false) => {
   let { mode, lineWidth, eraserWidth, color, highlight } = drawCtrl;
   const path = new Path();
@@ -1003,14 +2146,42 @@ const startStroke = (drawCtrl: DrawCtrl, point: paper.Point, slow = false) => {
     strokeColor.alpha = 0.5;
     path.blendMode = "multiply";
   }
+  if (mode === "draw" && drawCtrl.pressure) {
+    // outlines keep their samples in local coordinates when transformed.
+    path.applyMatrix = false;
+    path.closed = true;
+    path.fillColor = strokeColor;
+    path.opacity = drawCtrl.opacity;
+    path.guide = true;
+    return path;
+  }
   path.strokeColor = strokeColor;
   path.strokeWidth = lineWidth;
   path.strokeJoin = "round";
   path.strokeCap = "round";
+  if (mode === "draw") setStrokeStyle(path, drawCtrl);
   path.guide = true;
   return path;
 };
 
+const getShapePath = (shape: RecognizedShape | ShapeGeometry) => {
+  if (shape.type !== "ellipse") {
+    const { points, closed } = shape;
+    return { segments: toSegments(points), closed };
+  }
+  const [rx, ry] = shape.radius;
+  const ellipse = new Path.Ellipse({
+    center: shape.center,
+    radius: [rx, ry],
+    insert: false,
+  });
+  ellipse.rotate(shape.rotation);
+  return { segments: ellipse.segments, closed: true };
+};
+
+const toSegments = (outline: [number, number][]) =>
+  outline.map(([x, y]) => new paper.Segment(new Point(x, y)));
+
 const moveDash = (item: paper.Item) => {
   item.dashOffset = 0;
   item.dashArray = [30, 20];
@@ -1100,8 +2271,19 @@ const checkLasso = (items: paper.Item[], selection: paper.Path) => {
 };
 
 const updateGroupStyle = (items: paper.Item[], updated: Partial<DrawCtrl>) => {
-  const { lineWidth, color, highlight } = updated;
+  const { lineWidth, color, highlight, fillColor, opacity } = updated;
+  const { dashArray, strokeCap, strokeJoin } = updated;
   items.forEach((item) => {
+    if (opacity !== undefined) item.opacity = opacity;
+
+    if (isRichText(item) && color) {
+      // runs keep their own colours only within the edited text.
+      const data = getRichTextData(item);
+      const { length } = getPlainText(data);
+      const runs = formatText(data, 0, length, { color: undefined }).runs;
+      renderRichText(item, { ...data, color, runs });
+    }
+
     if (item instanceof paper.PointText && color) {
       const newColor = new Color(color);
       item.fillColor = newColor;
@@ -1109,6 +2291,9 @@ const updateGroupStyle = (items: paper.Item[], updated: Partial<DrawCtrl>) => {
 
     if (!(item instanceof paper.Path)) return;
 
+    const pressure: PressureData | undefined = item.data.pressure;
+    if (pressure) return updatePressureStyle(item, pressure, updated);
+
     if (color) {
       const newColor = new Color(color);
       if (item.blendMode === "multiply") newColor.alpha = 0.5;
@@ -1116,6 +2301,12 @@ const updateGroupStyle = (items: paper.Item[], updated: Partial<DrawCtrl>) => {
     }
 
     if (lineWidth) item.strokeWidth = lineWidth;
+    if (dashArray) item.dashArray = dashArray;
+    if (strokeCap) item.strokeCap = strokeCap;
+    if (strokeJoin) item.strokeJoin = strokeJoin;
+    if (fillColor !== undefined && item.closed) {
+      item.fillColor = fillColor ? new Color(fillColor) : null;
+    }
 
     if (!item.strokeColor || highlight === undefined) return;
     item.strokeColor.alpha = highlight ? 0.5 : 1;
@@ -1123,18 +2314,70 @@ const updateGroupStyle = (items: paper.Item[], updated: Partial<DrawCtrl>) => {
   });
 };
 
-const getClickedText = (layer: paper.Layer, point: paper.Point) => {
-  const hitRes = layer.hitTest(point, { class: paper.PointText, fill: true });
-  if (hitRes?.item instanceof paper.PointText) return hitRes?.item;
+const updatePressureStyle = (
+  item: paper.Path,
+  pressure: PressureData,
+  { lineWidth, color, highlight }: Partial<DrawCtrl>
+) => {
+  if (color) {
+    const newColor = new Color(color);
+    if (item.blendMode === "multiply") newColor.alpha = 0.5;
+    item.fillColor = newColor;
+  }
+  if (lineWidth) {
+    // the outline is rebuilt in local coordinates, before the item's scaling.
+    const width = lineWidth / Math.abs(item.scaling.x || 1);
+    const updated: PressureData = { ...pressure, width };
+    item.segments = toSegments(getPressureOutline(updated));
+    item.simplify(0.5);
+    item.data.pressure = updated;
+  }
+  if (!item.fillColor || highlight === undefined) return;
+  item.fillColor.alpha = highlight ? 0.5 : 1;
+  item.blendMode = highlight ? "multiply" : "normal";
+};
+
+// a text box, also where it is empty, or a text item of older documents.
+const getClickedText = (items: paper.Item[], point: paper.Point) => {
+  const topFirst = items.slice().sort((a, b) => b.index - a.index);
+  const box = topFirst.find(
+    (item): item is paper.Group =>
+      isRichText(item) &&
+      item.internalBounds.contains(item.globalToLocal(point))
+  );
+  if (box) return box;
+  return topFirst.find(
+    (item): item is paper.PointText =>
+      item instanceof paper.PointText && !!item.hitTest(point, { fill: true })
+  );
 };
 
-const startText = (point: paper.Point) => {
-  return new paper.PointText({
-    point: point.add(new Point(0, 50)),
-    content: "",
-    fontSize: 50,
-    fontFamily: "Arial, sans-serif",
-  });
+// whether a painted stroke is in a shown layer that is not locked.
+const isInOpenLayer = (item: paper.Item) => {
+  const group = item.parent;
+  return !!group && group.visible && !group.data.locked;
+};
+
+// the pathData of a painted stroke, also while it is culled.
+const exportStroke = (item: paper.Item) => {
+  const { visible } = item;
+  item.visible = true;
+  const pathData = item.exportJSON();
+  item.visible = visible;
+  return pathData;
+};
+
+// how far a stroke is from a point, zero inside of a filled shape.
+const getDistance = (item: paper.Item, point: paper.Point) => {
+  if (item instanceof paper.PathItem) {
+    if (item.hasFill() && item.contains(point)) return 0;
+    const nearest = item.getNearestPoint(point);
+    return Math.max(nearest.getDistance(point) - item.strokeWidth / 2, 0);
+  }
+  const { left, right, top, bottom } = item.bounds;
+  const dx = Math.max(left - point.x, 0, point.x - right);
+  const dy = Math.max(top - point.y, 0, point.y - bottom);
+  return Math.hypot(dx, dy);
 };
 
 const flattenCP = (cp: paper.Item): paper.Path[] => {
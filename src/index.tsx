@@ -1,2 +1,4 @@
 import "./draw.css";
 export * from "./Draw";
+export * from "./useCollab";
+export * from "./usePlayback";
@@ -1,5 +1,8 @@
+import { BASE_LAYER } from "./DrawState";
+import type { ArrowHeads, ShapeMode } from "./shapes";
+
 export interface DrawCtrl {
-  mode: "draw" | "erase" | "select" | "text" | "rect" | "picture";
+  mode: "draw" | "erase" | "select" | "text" | "rect" | "picture" | ShapeMode;
   finger: boolean;
   lineWidth: number;
   eraserWidth: number;
@@ -8,8 +11,26 @@ export interface DrawCtrl {
   lasso: boolean;
   pixelEraser: boolean;
   globalEraser: boolean;
+  // variable-width strokes from pen pressure, tilt and velocity.
+  pressure: boolean;
+  tilt: boolean;
+  velocity: boolean;
+  // snap a stroke to a clean shape when the pen rests at its end.
+  recognizeShape: boolean;
+  // fills closed shapes, none when empty.
+  fillColor: string;
+  // empty for solid lines.
+  dashArray: number[];
+  opacity: number;
+  strokeCap: "butt" | "round" | "square";
+  strokeJoin: "miter" | "round" | "bevel";
+  arrowHeads: ArrowHeads;
+  polygonSides: number;
+  starPoints: number;
   widthList: number[];
   imageSrc: string;
+  // the uid of the layer new strokes go to.
+  layer: string;
 }
 
 export const defaultWidthList = [10, 20, 30, 50];
@@ -23,6 +44,19 @@ export const defaultDrawCtrl: Readonly<DrawCtrl> = {
   lasso: false,
   pixelEraser: false,
   globalEraser: false,
+  pressure: false,
+  tilt: false,
+  velocity: false,
+  recognizeShape: false,
+  fillColor: "",
+  dashArray: [],
+  opacity: 1,
+  strokeCap: "round",
+  strokeJoin: "round",
+  arrowHeads: "end",
+  polygonSides: 6,
+  starPoints: 5,
   widthList: defaultWidthList,
   imageSrc: "",
+  layer: BASE_LAYER,
 };
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DrawState, Operation, Stroke } from "./DrawState";
+
+const stroke = (uid: string, timestamp: number): Stroke => ({
+  type: "STROKE",
+  uid,
+  timestamp,
+  pathData: JSON.stringify(["Path", { segments: [[0, timestamp]] }]),
+});
+
+const replay = (ops: Operation[]) =>
+  ops.reduce(DrawState.pushOperation, DrawState.createEmpty(1, 100));
+
+const uids = (ds: DrawState) => ds.getStrokeMap().keySeq().toArray();
+
+test("replays a logged revert and reapply by their inverse", () => {
+  const a = stroke("a", 1);
+  const b = stroke("b", 2);
+  const reverted = replay([
+    { type: "add", stroke: a },
+    { type: "add", stroke: b },
+    // not the last operation, as the stack would give.
+    { type: "revert", inverse: { removed: ["a"], restored: [] } },
+  ]);
+  assert.deepEqual(uids(reverted), ["b"]);
+  // the local stacks are left as they were.
+  assert.equal(reverted.getRevertStack().size, 2);
+  assert.equal(reverted.getReapplyStack().size, 0);
+
+  const reapplied = DrawState.pushOperation(reverted, {
+    type: "reapply",
+    inverse: { removed: [], restored: [a] },
+  });
+  assert.deepEqual(uids(reapplied), ["a", "b"]);
+});
+
+test("reverts and reapplies the last local operation", () => {
+  let ds = replay([
+    { type: "add", stroke: stroke("a", 1) },
+    { type: "add", stroke: stroke("b", 2) },
+  ]);
+  ds = DrawState.revert(ds);
+  assert.deepEqual(uids(ds), ["a"]);
+  assert.equal(ds.getRevertStack().size, 1);
+  ds = DrawState.reapply(ds);
+  assert.deepEqual(uids(ds), ["a", "b"]);
+  assert.equal(ds.getReapplyStack().size, 0);
+});
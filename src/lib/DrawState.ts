@@ -1,12 +1,33 @@
 import { List, Record, OrderedMap, Map } from "immutable";
 import { NIL, v4, v5, validate } from "uuid";
 import Heap from "heap";
+import { renderSVG, SVGExportOptions } from "./svg";
+import { FLAT_STATE_VERSION, migrateFlatState } from "./schema";
 
 export interface Stroke {
   type: "STROKE";
   uid: string;
   pathData: string;
   timestamp: number;
+  // the uid of its layer, the base layer when absent.
+  layer?: string;
+  // its place in the paint order, set by ORDER records when merged; the
+  // timestamp stands for it otherwise.
+  z?: number;
+}
+
+export interface LayerProps {
+  name: string;
+  // layers are painted from the lowest order up.
+  order: number;
+  visible: boolean;
+  // strokes of a locked layer can't be erased or selected.
+  locked: boolean;
+  opacity: number;
+}
+
+export interface DrawLayer extends LayerProps {
+  uid: string;
 }
 
 export type StrokeData =
@@ -23,12 +44,63 @@ export type StrokeData =
       originUid: string;
       pathData: string;
       timestamp: number;
+      // moves the stroke to this layer when given.
+      layer?: string;
+    }
+  // the props of the layer `originUid`, the latest record wins.
+  | ({
+      type: "LAYER";
+      uid: string;
+      originUid: string;
+      timestamp: number;
+    } & LayerProps)
+  // restacks the stroke `originUid`, the latest record wins.
+  | {
+      type: "ORDER";
+      uid: string;
+      originUid: string;
+      z: number;
+      timestamp: number;
+    }
+  // the members of the group `originUid`, strokes and nested groups. The
+  // latest record wins, an empty one ungroups.
+  | {
+      type: "GROUP";
+      uid: string;
+      originUid: string;
+      members: string[];
+      timestamp: number;
     };
 
+type LayerRecord = Extract<StrokeData, { type: "LAYER" }>;
+type OrderRecord = Extract<StrokeData, { type: "ORDER" }>;
+type GroupRecord = Extract<StrokeData, { type: "GROUP" }>;
+
+export type RestackMode = "front" | "back" | "forward" | "backward";
+
+export interface StrokeGroups {
+  // the members of each group.
+  members: globalThis.Map<string, string[]>;
+  // the group each stroke or group is in.
+  parents: globalThis.Map<string, string>;
+}
+
 export type StrokeRecord = globalThis.Record<string, StrokeData>;
 export type Mutation = [string, string];
 export type Splitter = [string, string[]];
 
+export interface StrokePatch {
+  removed: string[];
+  // changed records in the resulting order, each after the given uid.
+  upserted: [StrokeData, string | null][];
+}
+
+// undoes one local operation: records to drop and records to put back.
+export interface Inverse {
+  removed: string[];
+  restored: StrokeData[];
+}
+
 export type Operation =
   | {
       type: "add";
@@ -46,11 +118,39 @@ export type Operation =
       type: "mutate";
       mutations: Mutation[];
       timestamp: number;
+      layer?: string;
+    }
+  | {
+      type: "layer";
+      layers: DrawLayer[];
+      timestamp: number;
+    }
+  | {
+      type: "restack";
+      orders: [string, number][];
+      timestamp: number;
+    }
+  | {
+      type: "group";
+      groups: [string, string[]][];
+      timestamp: number;
     }
   | {
       type: "split";
       splitters: Splitter[];
     }
+  | {
+      type: "patch";
+      patch: StrokePatch;
+    }
+  | {
+      type: "revert";
+      inverse: Inverse;
+    }
+  | {
+      type: "reapply";
+      inverse: Inverse;
+    }
   | {
       type: "undo";
     }
@@ -63,6 +163,9 @@ interface DrawStateRecordType {
   mutationPairs: Map<string, string>; //{ [originID]: [mutationID] }
   undoStack: List<DrawStateRecord>;
   historyStack: List<DrawStateRecord>;
+  // inverses of the local operations, for selective undo/redo.
+  revertStack: List<Inverse>;
+  reapplyStack: List<Inverse>;
 }
 
 type DrawStateRecord = Record<DrawStateRecordType>;
@@ -72,19 +175,54 @@ const defaultRecord: Readonly<DrawStateRecordType> = {
   mutationPairs: Map(),
   undoStack: List(),
   historyStack: List(),
+  revertStack: List(),
+  reapplyStack: List(),
 };
 
 const defaultFactory = Record(defaultRecord);
 
 export interface FlatState {
+  version?: number;
   strokes: StrokeRecord;
   operations?: Operation[];
 }
 
 export const getDefaultFlatState = (): FlatState => {
-  return { strokes: {} };
+  return { version: FLAT_STATE_VERSION, strokes: {} };
 };
 
+// the layer of strokes without one, there in every document.
+export const BASE_LAYER = NIL;
+
+const defaultLayer: Readonly<DrawLayer> = {
+  uid: BASE_LAYER,
+  name: "Layer 1",
+  order: 0,
+  visible: true,
+  locked: false,
+  opacity: 1,
+};
+
+export const createLayer = (name: string, order: number): DrawLayer => ({
+  ...defaultLayer,
+  uid: v4(),
+  name,
+  order,
+});
+
+export const getStrokeLayer = (stroke: Stroke) => stroke.layer ?? BASE_LAYER;
+
+export const getStrokeZ = (stroke: Stroke) => stroke.z ?? stroke.timestamp;
+
+// a stroke as a MUTATE record changes it.
+const applyMutation = (
+  stroke: Stroke,
+  { pathData, layer }: { pathData: string; layer?: string }
+): Stroke =>
+  layer === undefined
+    ? { ...stroke, pathData }
+    : { ...stroke, pathData, layer };
+
 export class DrawState {
   constructor(
     private immutable: DrawStateRecord,
@@ -105,6 +243,14 @@ export class DrawState {
     return this.getImmutable().get("historyStack");
   }
 
+  getRevertStack() {
+    return this.getImmutable().get("revertStack");
+  }
+
+  getReapplyStack() {
+    return this.getImmutable().get("reapplyStack");
+  }
+
   getStrokeMap() {
     return this.getImmutable().get("strokes");
   }
@@ -129,6 +275,19 @@ export class DrawState {
     return new DrawState(defaultFactory(), width, width * ratio);
   }
 
+  // a state holding only the given records, sized like `drawState`.
+  static withStrokes(drawState: DrawState, strokes: StrokeData[]) {
+    let mutationPairs = Map<string, string>();
+    strokes.forEach((stroke) => {
+      if (stroke.type !== "MUTATE") return;
+      mutationPairs = mutationPairs.set(stroke.originUid, stroke.uid);
+    });
+    const record = defaultFactory()
+      .set("strokes", OrderedMap(strokes.map((s) => [s.uid, s])))
+      .set("mutationPairs", mutationPairs);
+    return new DrawState(record, drawState.width, drawState.height);
+  }
+
   static undo(drawState: DrawState) {
     const lastOp: Operation = { type: "undo" };
     const lastRecord = drawState.getHistoryStack().last();
@@ -152,24 +311,28 @@ export class DrawState {
     return new DrawState(nextRecord, drawState.width, drawState.height, lastOp);
   }
 
-  static addStroke(drawState: DrawState, pathData: string) {
+  static addStroke(drawState: DrawState, pathData: string, layer?: string) {
     const uid = v4();
     const timestamp = Date.now();
     const stroke: Stroke = { pathData, uid, timestamp, type: "STROKE" };
+    if (layer && layer !== BASE_LAYER) stroke.layer = layer;
     return DrawState.pushStroke(drawState, stroke);
   }
 
   static addStrokeList(
     drawState: DrawState,
     pathDataList: string[],
-    callback?: (IDs: string[]) => void
+    callback?: (IDs: string[]) => void,
+    layer?: string
   ) {
     const newIDs: string[] = [];
     const timestamp = Date.now();
     const strokeList: Stroke[] = pathDataList.map((pathData) => {
       const uid = v4();
       newIDs.push(uid);
-      return { type: "STROKE", pathData, timestamp, uid };
+      const stroke: Stroke = { type: "STROKE", pathData, timestamp, uid };
+      if (layer && layer !== BASE_LAYER) stroke.layer = layer;
+      return stroke;
     });
     callback?.(newIDs);
 
@@ -179,10 +342,13 @@ export class DrawState {
   static pushStroke(drawState: DrawState, stroke: Stroke) {
     const { uid } = stroke;
     const prevRecord = drawState.getImmutable();
+    const inverse: Inverse = { removed: [uid], restored: [] };
     const currRecord = prevRecord
       .update("strokes", (s) => s.set(uid, stroke))
       .update("historyStack", (s) => s.push(prevRecord))
-      .delete("undoStack");
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
 
     const lastOp: Operation = { type: "add", stroke };
 
@@ -191,9 +357,14 @@ export class DrawState {
 
   static pushStrokeList(drawState: DrawState, strokeList: Stroke[]) {
     const prevRecord = drawState.getImmutable();
-    const currRecord = prevRecord.update("strokes", (s) =>
-      s.merge(strokeList.map((stroke) => [stroke.uid, stroke]))
-    );
+    const removed = strokeList.map(({ uid }) => uid);
+    const inverse: Inverse = { removed, restored: [] };
+    const currRecord = prevRecord
+      .update("strokes", (s) =>
+        s.merge(strokeList.map((stroke) => [stroke.uid, stroke]))
+      )
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
     const lastOp: Operation = { type: "add_list", strokeList };
 
     return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
@@ -203,10 +374,16 @@ export class DrawState {
     if (erased.length === 0) return drawState;
     const prevRecord = drawState.getImmutable();
     let strokes = drawState.getStrokeMap();
-    const hidden = erased.filter((uid) => !strokes.has(uid));
+    const inverse: Inverse = { removed: [], restored: [] };
+    const hidden = erased.filter((uid) => {
+      const stroke = strokes.get(uid);
+      if (stroke) inverse.restored.push(stroke);
+      return !stroke;
+    });
     strokes = strokes.deleteAll(erased);
     hidden.forEach((hideID) => {
       const uid = v4();
+      inverse.removed.push(uid);
       strokes = strokes.set(uid, {
         type: "HIDE",
         uid,
@@ -218,42 +395,58 @@ export class DrawState {
     const currRecord = prevRecord
       .set("strokes", strokes)
       .update("historyStack", (s) => s.push(prevRecord))
-      .delete("undoStack");
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
 
     const lastOp: Operation = { type: "erase", erased };
 
     return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
   }
 
+  // `layer` moves the strokes to that layer as well.
   static mutateStrokes(
     drawState: DrawState,
     mutations: Mutation[],
-    timestamp = Date.now()
+    timestamp = Date.now(),
+    layer?: string
   ) {
     if (mutations.length === 0) return drawState;
     const prevRecord = drawState.getImmutable();
     let strokes = drawState.getStrokeMap();
     let mutationPairs = drawState.getMutationPairs();
+    const added = new Set<string>();
+    const restored: StrokeData[] = [];
     mutations.forEach(([uid, pathData]) => {
       const newUid = v4();
+      added.add(newUid);
       strokes = strokes.set(newUid, {
         type: "MUTATE",
         uid: newUid,
         originUid: uid,
         pathData,
         timestamp,
+        ...(layer !== undefined && { layer }),
       });
       const prevMutationUid = mutationPairs.get(uid);
       mutationPairs = mutationPairs.set(uid, newUid);
+      const prevMutation = strokes.get(prevMutationUid ?? "");
+      if (prevMutationUid && !added.delete(prevMutationUid) && prevMutation) {
+        restored.push(prevMutation);
+      }
       strokes = strokes.delete(prevMutationUid ?? "");
     });
+    const inverse: Inverse = { removed: Array.from(added), restored };
     const currRecord = prevRecord
       .set("strokes", strokes)
       .set("mutationPairs", mutationPairs)
       .update("historyStack", (s) => s.push(prevRecord))
-      .delete("undoStack");
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
 
     const lastOp: Operation = { type: "mutate", mutations, timestamp };
+    if (layer !== undefined) lastOp.layer = layer;
 
     return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
   }
@@ -262,18 +455,25 @@ export class DrawState {
     if (splitters.length === 0) return drawState;
     const splitMap = Map(splitters);
     let strokes = OrderedMap<string, StrokeData>();
+    const inverse: Inverse = { removed: [], restored: [] };
     const prevStrokes = drawState.getStrokeMap();
     prevStrokes.forEach((stroke, prevUid) => {
       const splitStrokes = splitMap.get(prevUid);
       if (splitStrokes) {
+        inverse.restored.push(stroke);
         strokes = strokes.merge(
           splitStrokes.map((pathData, index) => {
             // update legacy uid solution.
             if (!validate(prevUid)) prevUid = v5(prevUid, NIL);
 
             const uid = v5(String(index), prevUid);
+            inverse.removed.push(uid);
             const { timestamp } = stroke;
-            return [uid, { pathData, timestamp, uid, type: "STROKE" }];
+            const split: Stroke = { pathData, timestamp, uid, type: "STROKE" };
+            if (stroke.type === "STROKE" && stroke.layer) {
+              split.layer = stroke.layer;
+            }
+            return [uid, split];
           })
         );
       } else {
@@ -283,11 +483,444 @@ export class DrawState {
     const prevRecord = drawState.getImmutable();
     const currRecord = prevRecord
       .set("strokes", strokes)
-      .update("historyStack", (s) => s.push(prevRecord));
+      .update("historyStack", (s) => s.push(prevRecord))
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
     const lastOp: Operation = { type: "split", splitters };
     return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
   }
 
+  // records the given layers as they are now, in place of the previous
+  // records of this user for them.
+  static setLayers(
+    drawState: DrawState,
+    layers: DrawLayer[],
+    timestamp = Date.now()
+  ) {
+    if (layers.length === 0) return drawState;
+    const prevRecord = drawState.getImmutable();
+    const prevStrokes = drawState.getStrokeMap();
+    const inverse: Inverse = { removed: [], restored: [] };
+    const changed = new Set(layers.map(({ uid }) => uid));
+    let strokes = dropRecords(prevStrokes, "LAYER", changed, inverse);
+    layers.forEach(({ uid: originUid, ...props }) => {
+      const uid = v4();
+      inverse.removed.push(uid);
+      strokes = strokes.set(uid, {
+        type: "LAYER",
+        uid,
+        originUid,
+        timestamp,
+        ...props,
+      });
+    });
+    const currRecord = prevRecord
+      .set("strokes", strokes)
+      .update("historyStack", (s) => s.push(prevRecord))
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
+    const lastOp: Operation = { type: "layer", layers, timestamp };
+    return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
+  }
+
+  // gives strokes new z values, see `getRestackOrders`, in place of the
+  // previous ones of this user.
+  static restackStrokes(
+    drawState: DrawState,
+    orders: [string, number][],
+    timestamp = Date.now()
+  ) {
+    if (orders.length === 0) return drawState;
+    const prevRecord = drawState.getImmutable();
+    const inverse: Inverse = { removed: [], restored: [] };
+    const changed = new Set(orders.map(([uid]) => uid));
+    let strokes = dropRecords(
+      drawState.getStrokeMap(),
+      "ORDER",
+      changed,
+      inverse
+    );
+    orders.forEach(([originUid, z]) => {
+      const uid = v4();
+      inverse.removed.push(uid);
+      strokes = strokes.set(uid, {
+        type: "ORDER",
+        uid,
+        originUid,
+        z,
+        timestamp,
+      });
+    });
+    const currRecord = prevRecord
+      .set("strokes", strokes)
+      .update("historyStack", (s) => s.push(prevRecord))
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
+    const lastOp: Operation = { type: "restack", orders, timestamp };
+    return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
+  }
+
+  // the z values that move strokes to the front or the back of their layers,
+  // or up or down past the next stroke for which `passes` holds, e.g. the
+  // next one they overlap. `merged` is the result of `mergeStates`.
+  static getRestackOrders(
+    merged: OrderedMap<string, Stroke>,
+    uids: string[],
+    mode: RestackMode,
+    passes: (stroke: Stroke) => boolean = () => true
+  ) {
+    const moved = new Set(uids);
+    const byLayer = new globalThis.Map<string, Stroke[]>();
+    merged.forEach((stroke) => {
+      const layer = getStrokeLayer(stroke);
+      const strokes = byLayer.get(layer) ?? [];
+      strokes.push(stroke);
+      byLayer.set(layer, strokes);
+    });
+    const orders: [string, number][] = [];
+    byLayer.forEach((strokes) => {
+      if (strokes.some(({ uid }) => moved.has(uid))) {
+        orders.push(...restackLayer(strokes, moved, mode, passes));
+      }
+    });
+    return orders;
+  }
+
+  // records the members of the given groups, in place of the previous
+  // records of this user for them.
+  static setGroups(
+    drawState: DrawState,
+    groups: [string, string[]][],
+    timestamp = Date.now()
+  ) {
+    if (groups.length === 0) return drawState;
+    const prevRecord = drawState.getImmutable();
+    const inverse: Inverse = { removed: [], restored: [] };
+    const changed = new Set(groups.map(([uid]) => uid));
+    let strokes = dropRecords(
+      drawState.getStrokeMap(),
+      "GROUP",
+      changed,
+      inverse
+    );
+    groups.forEach(([originUid, members]) => {
+      const uid = v4();
+      inverse.removed.push(uid);
+      strokes = strokes.set(uid, {
+        type: "GROUP",
+        uid,
+        originUid,
+        members,
+        timestamp,
+      });
+    });
+    const currRecord = prevRecord
+      .set("strokes", strokes)
+      .update("historyStack", (s) => s.push(prevRecord))
+      .delete("undoStack")
+      .update("revertStack", (s) => s.push(inverse))
+      .delete("reapplyStack");
+    const lastOp: Operation = { type: "group", groups, timestamp };
+    return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
+  }
+
+  // binds strokes and groups, see `getGroupRoots`, into a new group.
+  static groupStrokes(drawState: DrawState, members: string[]) {
+    if (members.length < 2) return drawState;
+    return DrawState.setGroups(drawState, [[v4(), members]]);
+  }
+
+  static ungroupStrokes(drawState: DrawState, groupIDs: string[]) {
+    const groups = groupIDs.map((uid): [string, string[]] => [uid, []]);
+    return DrawState.setGroups(drawState, groups);
+  }
+
+  // the outermost group of each stroke, or the stroke when it has none.
+  static getGroupRoots(groups: StrokeGroups, uids: string[]) {
+    const roots = new Set<string>();
+    uids.forEach((uid) => {
+      const seen = new Set<string>();
+      let root = uid;
+      let parent = groups.parents.get(root);
+      // concurrent changes may nest groups in each other.
+      while (parent !== undefined && !seen.has(parent)) {
+        seen.add(parent);
+        root = parent;
+        parent = groups.parents.get(root);
+      }
+      roots.add(root);
+    });
+    return Array.from(roots);
+  }
+
+  // the strokes of the outermost groups of the given ones, which a click on
+  // any of them selects.
+  static expandGroups(groups: StrokeGroups, uids: string[]) {
+    const strokes = new Set<string>();
+    const seen = new Set<string>();
+    const visit = (uid: string) => {
+      if (seen.has(uid)) return;
+      seen.add(uid);
+      const members = groups.members.get(uid);
+      if (!members) return void strokes.add(uid);
+      members.forEach((member) => {
+        if (groups.parents.get(member) === uid) visit(member);
+      });
+    };
+    DrawState.getGroupRoots(groups, uids).forEach(visit);
+    return Array.from(strokes);
+  }
+
+  // new groups for copies of strokes, shaped like the groups of the
+  // originals; `copies` maps each original uid to that of its copy.
+  static copyGroups(
+    groups: StrokeGroups,
+    copies: globalThis.Map<string, string>
+  ) {
+    const copied: [string, string[]][] = [];
+    const copy = (uid: string): string | undefined => {
+      const members = groups.members.get(uid);
+      if (!members) return copies.get(uid);
+      const memberCopies = members
+        .filter((member) => groups.parents.get(member) === uid)
+        .map(copy)
+        .filter((member): member is string => member !== undefined);
+      if (memberCopies.length < 2) return memberCopies[0];
+      const groupUid = v4();
+      copied.push([groupUid, memberCopies]);
+      return groupUid;
+    };
+    DrawState.getGroupRoots(groups, Array.from(copies.keys())).forEach(copy);
+    return copied;
+  }
+
+  // selective undo: inverts the last local operation only, leaving records
+  // that came from patches alone. A logged `inverse` is applied as it is,
+  // and the stacks are left alone.
+  static revert(drawState: DrawState, logged?: Inverse) {
+    const inverse = logged ?? drawState.getRevertStack().last();
+    if (!inverse) return drawState;
+    const [strokes, mutationPairs, redone] = applyInverse(drawState, inverse);
+    const prevRecord = drawState.getImmutable();
+    let currRecord = prevRecord
+      .set("strokes", strokes)
+      .set("mutationPairs", mutationPairs)
+      .update("historyStack", (s) => s.push(prevRecord))
+      .delete("undoStack");
+    if (!logged) {
+      currRecord = currRecord
+        .update("revertStack", (s) => s.pop())
+        .update("reapplyStack", (s) => s.push(redone));
+    }
+    const lastOp: Operation = { type: "revert", inverse };
+    return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
+  }
+
+  static reapply(drawState: DrawState, logged?: Inverse) {
+    const inverse = logged ?? drawState.getReapplyStack().last();
+    if (!inverse) return drawState;
+    const [strokes, mutationPairs, undone] = applyInverse(drawState, inverse);
+    const prevRecord = drawState.getImmutable();
+    let currRecord = prevRecord
+      .set("strokes", strokes)
+      .set("mutationPairs", mutationPairs)
+      .update("historyStack", (s) => s.push(prevRecord))
+      .delete("undoStack");
+    if (!logged) {
+      currRecord = currRecord
+        .update("reapplyStack", (s) => s.pop())
+        .update("revertStack", (s) => s.push(undone));
+    }
+    const lastOp: Operation = { type: "reapply", inverse };
+    return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
+  }
+
+  static diffStrokes(prevState: DrawState, nextState: DrawState): StrokePatch {
+    return diffOrdered(prevState.getStrokeMap(), nextState.getStrokeMap());
+  }
+
+  // what changed between two results of `mergeStates`. Mutated strokes are
+  // merged into new objects every time, so they are compared by content.
+  static diffMerged(
+    prev: OrderedMap<string, Stroke>,
+    next: OrderedMap<string, Stroke>
+  ) {
+    return diffOrdered(
+      prev,
+      next,
+      (a, b) => a.pathData === b.pathData && a.layer === b.layer
+    );
+  }
+
+  // the strokes merged after the last operation of `nextState`, derived
+  // from those merged before it, when the operation is simple enough to
+  // tell; undefined when every state must be merged again.
+  static mergeAfter(
+    merged: OrderedMap<string, Stroke>,
+    prevState: DrawState,
+    nextState: DrawState
+  ) {
+    const op = nextState.lastOp;
+    const prevRecord = prevState.getImmutable();
+    if (nextState.getHistoryStack().last() !== prevRecord) return;
+    if (op?.type === "add") {
+      const { stroke } = op;
+      const last = merged.last();
+      // a stroke of another user may come later, or one was restacked above.
+      if (last && getStrokeZ(last) >= stroke.timestamp) return;
+      if (merged.has(stroke.uid)) return;
+      return merged.set(stroke.uid, stroke);
+    }
+    if (op?.type === "erase") return merged.deleteAll(op.erased);
+  }
+
+  static applyPatch(drawState: DrawState, patch: StrokePatch) {
+    const { removed, upserted } = patch;
+    if (!removed.length && !upserted.length) return drawState;
+    const prevStrokes = drawState.getStrokeMap();
+    let strokes: OrderedMap<string, StrokeData>;
+
+    const lastUid = prevStrokes.keySeq().last(null);
+    const isAppend =
+      !removed.length &&
+      upserted.every(
+        ([stroke, after], i) =>
+          !prevStrokes.has(stroke.uid) &&
+          after === (i ? upserted[i - 1]?.[0].uid : lastUid)
+      );
+
+    if (isAppend) {
+      strokes = prevStrokes.merge(upserted.map(([s]) => [s.uid, s]));
+    } else {
+      const skipped = new Set(removed);
+      upserted.forEach(([stroke]) => skipped.add(stroke.uid));
+      const following = new globalThis.Map<string | null, StrokeData>();
+      upserted.forEach(([stroke, after]) => following.set(after, stroke));
+
+      const mutable = OrderedMap<string, StrokeData>().asMutable();
+      const place = (after: string | null) => {
+        let stroke = following.get(after);
+        while (stroke) {
+          following.delete(after);
+          mutable.set(stroke.uid, stroke);
+          after = stroke.uid;
+          stroke = following.get(after);
+        }
+      };
+      place(null);
+      prevStrokes.forEach((stroke, uid) => {
+        if (skipped.has(uid)) return;
+        mutable.set(uid, stroke);
+        place(uid);
+      });
+      // records whose predecessor is missing here go last.
+      upserted.forEach(([stroke, after]) => {
+        if (following.get(after) !== stroke) return;
+        following.delete(after);
+        mutable.set(stroke.uid, stroke);
+        place(stroke.uid);
+      });
+      strokes = mutable.asImmutable();
+    }
+
+    let mutationPairs = drawState.getMutationPairs();
+    upserted.forEach(([stroke]) => {
+      if (stroke.type !== "MUTATE") return;
+      mutationPairs = mutationPairs.set(stroke.originUid, stroke.uid);
+    });
+    const currRecord = drawState
+      .getImmutable()
+      .set("strokes", strokes)
+      .set("mutationPairs", mutationPairs);
+    const lastOp: Operation = { type: "patch", patch };
+
+    return new DrawState(currRecord, drawState.width, drawState.height, lastOp);
+  }
+
+  // folds MUTATE records into their origin strokes and drops the records
+  // that no longer change anything, given the states of every other user.
+  // the last `retain` local operations are left as they are, so they can
+  // still be reverted; older history is discarded.
+  static compact(drawState: DrawState, otherStates: DrawState[], retain = 0) {
+    const strokes = drawState.getStrokeMap();
+    const tail = drawState.getRevertStack().takeLast(retain);
+    const kept = new Set<string>();
+    tail.forEach(({ removed, restored }) => {
+      removed.forEach((uid) => kept.add(uid));
+      restored.forEach((stroke) => {
+        kept.add(stroke.uid);
+        if (stroke.type !== "STROKE") kept.add(stroke.originUid);
+      });
+    });
+    const isKept = (stroke: StrokeData) =>
+      kept.has(stroke.uid) ||
+      (stroke.type !== "STROKE" && kept.has(stroke.originUid));
+
+    const foreignStrokes = new Set<string>();
+    // times other users mutated each stroke.
+    const foreignMutations = new globalThis.Map<string, number[]>();
+    otherStates.forEach((ds) =>
+      ds.getStrokeMap().forEach((stroke, uid) => {
+        if (stroke.type === "STROKE") foreignStrokes.add(uid);
+        if (stroke.type !== "MUTATE") return;
+        const times = foreignMutations.get(stroke.originUid) ?? [];
+        foreignMutations.set(stroke.originUid, times.concat(stroke.timestamp));
+      })
+    );
+    const firstHide = new globalThis.Map<string, StrokeData>();
+    strokes.forEach((stroke) => {
+      if (stroke.type !== "HIDE" || firstHide.has(stroke.originUid)) return;
+      firstHide.set(stroke.originUid, stroke);
+    });
+
+    const mutable = strokes.asMutable();
+    let mutationPairs = drawState.getMutationPairs();
+    strokes.forEach((stroke, uid) => {
+      if (stroke.type === "STROKE" || stroke.type === "LAYER") return;
+      if (stroke.type === "GROUP") return;
+      if (isKept(stroke)) return;
+      const { originUid, timestamp } = stroke;
+      const origin = strokes.get(originUid);
+      const alive = origin?.type === "STROKE" || foreignStrokes.has(originUid);
+      if (stroke.type === "ORDER") {
+        if (!alive) mutable.delete(uid);
+        return;
+      }
+      if (stroke.type === "HIDE") {
+        if (!alive || firstHide.get(originUid) !== stroke) mutable.delete(uid);
+        return;
+      }
+      const hide = firstHide.get(originUid);
+      if (!alive || (hide && hide.timestamp >= timestamp)) {
+        mutable.delete(uid);
+        mutationPairs = mutationPairs.delete(originUid);
+        return;
+      }
+      if (origin?.type !== "STROKE" || isKept(origin)) return;
+      // a mutation by someone else in between must still be overridden.
+      const interleaved = (foreignMutations.get(originUid) ?? []).some(
+        (time) => time >= origin.timestamp && time <= timestamp
+      );
+      if (interleaved) return;
+      mutable.set(originUid, applyMutation(origin, stroke));
+      mutable.delete(uid);
+      mutationPairs = mutationPairs.delete(originUid);
+    });
+
+    const currRecord = drawState
+      .getImmutable()
+      .set("strokes", mutable.asImmutable())
+      .set("mutationPairs", mutationPairs)
+      .update("historyStack", (s) => s.takeLast(retain))
+      .delete("undoStack")
+      .set("revertStack", tail)
+      .delete("reapplyStack");
+    return new DrawState(currRecord, drawState.width, drawState.height);
+  }
+
   // sync with mutation.
   static syncStrokeTime(drawState: DrawState, uid: string, timestamp: number) {
     const prevStroke = drawState.getStrokeMap().get(uid);
@@ -304,13 +937,30 @@ export class DrawState {
       case "erase":
         return DrawState.eraseStrokes(drawState, op.erased);
       case "mutate":
-        return DrawState.mutateStrokes(drawState, op.mutations, op.timestamp);
+        return DrawState.mutateStrokes(
+          drawState,
+          op.mutations,
+          op.timestamp,
+          op.layer
+        );
+      case "layer":
+        return DrawState.setLayers(drawState, op.layers, op.timestamp);
+      case "restack":
+        return DrawState.restackStrokes(drawState, op.orders, op.timestamp);
+      case "group":
+        return DrawState.setGroups(drawState, op.groups, op.timestamp);
+      case "revert":
+        return DrawState.revert(drawState, op.inverse);
+      case "reapply":
+        return DrawState.reapply(drawState, op.inverse);
       case "undo":
         return DrawState.undo(drawState);
       case "redo":
         return DrawState.redo(drawState);
       case "split":
         return DrawState.splitStrokes(drawState, op.splitters);
+      case "patch":
+        return DrawState.applyPatch(drawState, op.patch);
       default:
         return drawState;
     }
@@ -318,23 +968,36 @@ export class DrawState {
 
   static flaten(drawState: DrawState): FlatState {
     const strokes = drawState.getImmutable().get("strokes").toObject();
-    return { strokes };
+    return { version: FLAT_STATE_VERSION, strokes };
   }
 
+  static exportSVG(
+    drawState: DrawState,
+    otherStates: DrawState[] = [],
+    options?: SVGExportOptions
+  ) {
+    const layers = DrawState.mergeLayers(drawState, ...otherStates);
+    const strokes = DrawState.arrangeStrokes(
+      DrawState.mergeStates(drawState, ...otherStates),
+      layers
+    );
+    const { width, height } = drawState;
+    return renderSVG(strokes, width, height, { layers, ...options });
+  }
+
+  // throws a `FlatStateError` when the document is corrupt.
   static loadFromFlat(
     flatState: FlatState,
     ratio: number,
     width: number
   ): DrawState {
-    const { strokes, operations } = flatState;
-    let strokeMap = OrderedMap(strokes);
+    const { strokes, operations } = migrateFlatState(flatState);
+    const strokeMap = OrderedMap(strokes);
     let mutationPairs = Map<string, string>();
 
     Object.entries(strokes).forEach(([uid, strokeData]) => {
       if (strokeData.type !== "MUTATE") return;
-      const prevMutationUid = mutationPairs.get(strokeData.originUid);
       mutationPairs = mutationPairs.set(strokeData.originUid, uid);
-      if (prevMutationUid) strokeMap = strokeMap.delete(prevMutationUid);
     });
 
     let ds = new DrawState(
@@ -351,6 +1014,8 @@ export class DrawState {
   static mergeStates(...states: DrawState[]) {
     const iterators = states.map((ds) => ds.getStrokeMap().values());
     let mergedStrokes = OrderedMap<string, Stroke>();
+    // the ORDER record applied to each stroke.
+    const orders = new globalThis.Map<string, OrderRecord>();
     const heap = new Heap<[StrokeData, number]>(
       ([s0], [s1]) => s0.timestamp - s1.timestamp
     );
@@ -368,14 +1033,32 @@ export class DrawState {
       if (stroke.type === "HIDE") {
         mergedStrokes = mergedStrokes.delete(stroke.originUid);
       } else if (stroke.type === "MUTATE") {
-        const { originUid, pathData } = stroke;
         mergedStrokes = mergedStrokes.update(
-          originUid,
-          (s) => s! && { ...s, pathData }
+          stroke.originUid,
+          (s) => s! && applyMutation(s, stroke)
         );
-      } else {
+      } else if (stroke.type === "ORDER") {
+        const { originUid, z } = stroke;
+        const prev = orders.get(originUid);
+        // equal times go to the greater uid, the same for everyone.
+        const newer =
+          !prev ||
+          prev.timestamp < stroke.timestamp ||
+          (prev.timestamp === stroke.timestamp && prev.uid < stroke.uid);
+        if (newer && mergedStrokes.has(originUid)) {
+          orders.set(originUid, stroke);
+          mergedStrokes = mergedStrokes.update(
+            originUid,
+            (s) => s! && { ...s, z }
+          );
+        }
+      } else if (stroke.type === "STROKE") {
         const { uid } = stroke;
-        mergedStrokes = mergedStrokes.set(uid, stroke);
+        const order = orders.get(uid);
+        mergedStrokes = mergedStrokes.set(
+          uid,
+          order ? { ...stroke, z: order.z } : stroke
+        );
       }
 
       const iterator = iterators[index];
@@ -383,6 +1066,224 @@ export class DrawState {
       const { value, done } = iterator.next();
       done || heap.push([value, index]);
     }
+    // a stable sort, so the rest stays in time order.
+    if (orders.size) mergedStrokes = mergedStrokes.sortBy(getStrokeZ);
     return mergedStrokes;
   }
+
+  // the layers of every user, each as last recorded, in paint order. The
+  // base layer is there even without a record.
+  static mergeLayers(...states: DrawState[]): DrawLayer[] {
+    const latest = new globalThis.Map<string, LayerRecord>();
+    states.forEach((ds) =>
+      ds.getStrokeMap().forEach((record) => {
+        if (record.type !== "LAYER") return;
+        const prev = latest.get(record.originUid);
+        // ties go to the greater uid, the same for everyone.
+        const newer =
+          !prev ||
+          prev.timestamp < record.timestamp ||
+          (prev.timestamp === record.timestamp && prev.uid < record.uid);
+        if (newer) latest.set(record.originUid, record);
+      })
+    );
+    const layers: DrawLayer[] = latest.has(BASE_LAYER) ? [] : [defaultLayer];
+    latest.forEach(({ originUid, name, order, visible, locked, opacity }) =>
+      layers.push({ uid: originUid, name, order, visible, locked, opacity })
+    );
+    return layers.sort((a, b) =>
+      a.order !== b.order ? a.order - b.order : a.uid < b.uid ? -1 : 1
+    );
+  }
+
+  // the groups of every user, each as last recorded. A stroke or group
+  // in several groups is in the latest one.
+  static mergeGroups(...states: DrawState[]): StrokeGroups {
+    const records: GroupRecord[] = [];
+    states.forEach((ds) =>
+      ds.getStrokeMap().forEach((record) => {
+        if (record.type === "GROUP") records.push(record);
+      })
+    );
+    // ties go to the greater uid, the same for everyone.
+    records.sort((a, b) =>
+      a.timestamp !== b.timestamp
+        ? a.timestamp - b.timestamp
+        : a.uid < b.uid
+        ? -1
+        : 1
+    );
+    const latest = new globalThis.Map<string, GroupRecord>();
+    records.forEach((record) => latest.set(record.originUid, record));
+    const groups: StrokeGroups = {
+      members: new globalThis.Map(),
+      parents: new globalThis.Map(),
+    };
+    records.forEach((record) => {
+      const { originUid, members } = record;
+      if (latest.get(originUid) !== record || !members.length) return;
+      groups.members.set(originUid, members);
+      members.forEach((member) => groups.parents.set(member, originUid));
+    });
+    return groups;
+  }
+
+  // the merged strokes in paint order, layer by layer, without those of
+  // hidden layers. Strokes of unknown layers go on top.
+  static arrangeStrokes(
+    strokes: OrderedMap<string, Stroke>,
+    layers: DrawLayer[]
+  ) {
+    const rank = new globalThis.Map(layers.map(({ uid }, i) => [uid, i]));
+    const hidden = new Set(layers.filter((l) => !l.visible).map((l) => l.uid));
+    return strokes
+      .valueSeq()
+      .filter((stroke) => !hidden.has(getStrokeLayer(stroke)))
+      .sortBy((stroke) => rank.get(getStrokeLayer(stroke)) ?? layers.length)
+      .toArray();
+  }
 }
+
+// the records removed from `prev`, and those of `next` that are new, changed
+// or out of their previous order, each after the uid before it.
+const diffOrdered = <T>(
+  prev: OrderedMap<string, T>,
+  next: OrderedMap<string, T>,
+  equals = (a: T, b: T) => a === b
+) => {
+  const patch = {
+    removed: [] as string[],
+    upserted: [] as [T, string | null][],
+  };
+  if (prev === next) return patch;
+
+  const keptIndex = new globalThis.Map<string, number>();
+  prev.forEach((_, uid) => {
+    if (next.has(uid)) keptIndex.set(uid, keptIndex.size);
+    else patch.removed.push(uid);
+  });
+
+  let prevUid: string | null = null;
+  let lastIndex = -1;
+  next.forEach((value, uid) => {
+    const index = keptIndex.get(uid);
+    const prevValue = prev.get(uid);
+    // kept records out of their previous order count as moved.
+    const moved = index === undefined || index < lastIndex;
+    if (moved || prevValue === undefined || !equals(prevValue, value)) {
+      patch.upserted.push([value, prevUid]);
+    } else {
+      lastIndex = index;
+    }
+    prevUid = uid;
+  });
+  return patch;
+};
+
+// the records of a type for the given origins dropped, and kept in
+// `inverse` to be restored. Layers, restacking and groups change seldom, a
+// scan is enough to find them.
+const dropRecords = (
+  strokes: OrderedMap<string, StrokeData>,
+  type: "LAYER" | "ORDER" | "GROUP",
+  origins: Set<string>,
+  inverse: Inverse
+) =>
+  strokes.filter((stroke) => {
+    if (stroke.type !== type || !origins.has(stroke.originUid)) return true;
+    inverse.restored.push(stroke);
+    return false;
+  });
+
+// z values for the moved strokes of a layer, given in paint order. Each run
+// of moved strokes in the new order goes between the z of its neighbours.
+const restackLayer = (
+  strokes: Stroke[],
+  moved: Set<string>,
+  mode: RestackMode,
+  passes: (stroke: Stroke) => boolean
+): [string, number][] => {
+  const selected = strokes.filter(({ uid }) => moved.has(uid));
+  const rest = strokes.filter(({ uid }) => !moved.has(uid));
+  const indexOf = (uid: string) => strokes.findIndex((s) => s.uid === uid);
+  // where the moved strokes go among the rest.
+  let at: number;
+  if (mode === "front") {
+    at = rest.length;
+  } else if (mode === "back") {
+    at = 0;
+  } else if (mode === "forward") {
+    const top = indexOf(selected[selected.length - 1]?.uid ?? "");
+    const next = strokes
+      .slice(top + 1)
+      .find((s) => !moved.has(s.uid) && passes(s));
+    if (!next) return [];
+    at = rest.indexOf(next) + 1;
+  } else {
+    const bottom = indexOf(selected[0]?.uid ?? "");
+    const prev = strokes
+      .slice(0, bottom)
+      .reverse()
+      .find((s) => !moved.has(s.uid) && passes(s));
+    if (!prev) return [];
+    at = rest.indexOf(prev);
+  }
+  const below = rest[at - 1];
+  const above = rest[at];
+  const low = below ? getStrokeZ(below) : above ? getStrokeZ(above) - 1 : 0;
+  const high = above ? getStrokeZ(above) : low + 1;
+  const step = (high - low) / (selected.length + 1);
+  return selected.map(({ uid }, i) => [uid, low + step * (i + 1)]);
+};
+
+// drops the removed records and puts the restored ones back in timestamp
+// order, returning the inverse of what was actually changed.
+const applyInverse = (
+  drawState: DrawState,
+  { removed, restored }: Inverse
+): [OrderedMap<string, StrokeData>, Map<string, string>, Inverse] => {
+  let strokes = drawState.getStrokeMap();
+  let mutationPairs = drawState.getMutationPairs();
+  const inverse: Inverse = { removed: [], restored: [] };
+
+  removed.forEach((uid) => {
+    const stroke = strokes.get(uid);
+    if (!stroke) return;
+    inverse.restored.push(stroke);
+    if (
+      stroke.type === "MUTATE" &&
+      mutationPairs.get(stroke.originUid) === uid
+    ) {
+      mutationPairs = mutationPairs.delete(stroke.originUid);
+    }
+  });
+  strokes = strokes.deleteAll(removed);
+
+  const pending = restored
+    .filter(({ uid }) => !strokes.has(uid))
+    .sort((s0, s1) => s0.timestamp - s1.timestamp);
+  if (pending.length) {
+    const mutable = OrderedMap<string, StrokeData>().asMutable();
+    let index = 0;
+    strokes.forEach((stroke, uid) => {
+      let next = pending[index];
+      while (next && next.timestamp < stroke.timestamp) {
+        mutable.set(next.uid, next);
+        next = pending[++index];
+      }
+      mutable.set(uid, stroke);
+    });
+    pending.slice(index).forEach((stroke) => mutable.set(stroke.uid, stroke));
+    strokes = mutable.asImmutable();
+  }
+  pending.forEach((stroke) => {
+    inverse.removed.push(stroke.uid);
+    if (stroke.type !== "MUTATE") return;
+    const prevMutationUid = mutationPairs.get(stroke.originUid);
+    const prevMutation = strokes.get(prevMutationUid ?? "");
+    // a later mutation of the same stroke wins.
+    if (prevMutation && prevMutation.timestamp > stroke.timestamp) return;
+    mutationPairs = mutationPairs.set(stroke.originUid, stroke.uid);
+  });
+  return [strokes, mutationPairs, inverse];
+};
@@ -0,0 +1,146 @@
+import { v4 } from "uuid";
+
+export interface AwarenessState {
+  clientID: string;
+  name: string;
+  color: string;
+  // pointer position in page units.
+  cursor?: [number, number];
+  // pathData of the stroke being drawn.
+  path?: string;
+  // sent once when the peer leaves.
+  left?: boolean;
+  timestamp: number;
+}
+
+export type AwarenessUpdate = Partial<
+  Pick<AwarenessState, "name" | "color" | "cursor" | "path">
+>;
+
+export interface AwarenessTransport {
+  send: (state: AwarenessState) => void;
+  subscribe: (listener: (state: AwarenessState) => void) => () => void;
+}
+
+export interface AwarenessOptions {
+  clientID?: string;
+  name?: string;
+  color?: string;
+  // min interval between two local updates sent, in ms.
+  throttle?: number;
+  // peers silent for longer are dropped, in ms.
+  timeout?: number;
+}
+
+export class Awareness {
+  private local: AwarenessState;
+  private peers = new Map<string, AwarenessState>();
+  private receivedAt = new Map<string, number>();
+  private peerList: AwarenessState[] = [];
+  private listeners = new Set<() => void>();
+  private lastSent = 0;
+  private timerID?: ReturnType<typeof setTimeout>;
+  private heartbeatID: ReturnType<typeof setInterval>;
+  private unsubscribe: () => void;
+  private throttle: number;
+  private timeout: number;
+
+  constructor(
+    private transport: AwarenessTransport,
+    options: AwarenessOptions = {}
+  ) {
+    const { clientID = v4(), name = "", color = "#009dec" } = options;
+    this.throttle = options.throttle ?? 50;
+    this.timeout = options.timeout ?? 30_000;
+    this.local = { clientID, name, color, timestamp: Date.now() };
+    this.unsubscribe = transport.subscribe(this.receive);
+    this.heartbeatID = setInterval(() => {
+      this.send();
+      this.prune();
+    }, this.timeout / 2);
+    this.send();
+  }
+
+  getLocal = () => this.local;
+
+  getPeers = () => this.peerList;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  };
+
+  setLocal = (update: AwarenessUpdate) => {
+    this.local = { ...this.local, ...update };
+    if (this.timerID !== undefined) return;
+    const wait = Math.max(0, this.lastSent + this.throttle - Date.now());
+    this.timerID = setTimeout(() => {
+      this.timerID = undefined;
+      this.send();
+    }, wait);
+  };
+
+  receive = (state: AwarenessState) => {
+    const { clientID, timestamp, left } = state;
+    if (clientID === this.local.clientID) return;
+    const prev = this.peers.get(clientID);
+    if (prev && prev.timestamp > timestamp) return;
+    if (left) {
+      this.peers.delete(clientID);
+      this.receivedAt.delete(clientID);
+    } else {
+      this.peers.set(clientID, state);
+      this.receivedAt.set(clientID, Date.now());
+    }
+    this.update();
+  };
+
+  destroy() {
+    clearTimeout(this.timerID);
+    clearInterval(this.heartbeatID);
+    this.transport.send({ ...this.local, left: true, timestamp: Date.now() });
+    this.unsubscribe();
+    this.listeners.clear();
+  }
+
+  private send() {
+    this.lastSent = Date.now();
+    this.local = { ...this.local, timestamp: this.lastSent };
+    this.transport.send(this.local);
+  }
+
+  private prune() {
+    const expired = Date.now() - this.timeout;
+    let changed = false;
+    this.receivedAt.forEach((time, clientID) => {
+      if (time >= expired) return;
+      this.peers.delete(clientID);
+      this.receivedAt.delete(clientID);
+      changed = true;
+    });
+    if (changed) this.update();
+  }
+
+  private update() {
+    this.peerList = Array.from(this.peers.values());
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// broadcasts awareness between instances in the same process.
+export class MemoryAwarenessHub {
+  private listeners = new Set<(state: AwarenessState) => void>();
+
+  connect(): AwarenessTransport {
+    return {
+      send: (state) => {
+        const copy: AwarenessState = JSON.parse(JSON.stringify(state));
+        Array.from(this.listeners).forEach((listener) => listener(copy));
+      },
+      subscribe: (listener) => {
+        this.listeners.add(listener);
+        return () => void this.listeners.delete(listener);
+      },
+    };
+  }
+}
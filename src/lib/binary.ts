@@ -0,0 +1,456 @@
+import { parse, stringify, validate } from "uuid";
+import type { FlatState, StrokeData, StrokeRecord } from "./DrawState";
+
+// "DPAD" followed by the format version.
+const MAGIC = [0x44, 0x50, 0x41, 0x44];
+export const BINARY_VERSION = 1;
+
+export interface BinaryEncodeOptions {
+  // decimal digits kept for segment coordinates, 0 to 6.
+  precision?: number;
+}
+
+const STROKE_TYPES: StrokeData["type"][] = [
+  "STROKE",
+  "HIDE",
+  "MUTATE",
+  "LAYER",
+  "ORDER",
+  "GROUP",
+];
+// the index of a rarer type follows the header.
+const EXTENDED_TYPE = 3;
+const UID_IS_UUID = 1 << 2;
+const ORIGIN_IS_UUID = 1 << 3;
+const FLOAT_TIMESTAMP = 1 << 4;
+const HAS_LAYER = 1 << 6;
+const LAYER_IS_UUID = 1 << 7;
+
+// how a pathData is stored.
+const RAW = 0;
+const PATH = 1;
+const COMPOUND_PATH = 2;
+
+type Point = [number, number];
+type SegmentJSON = Point | [Point, Point, Point];
+type PathNode = ["Path", { segments?: SegmentJSON[] }];
+type CompoundNode = ["CompoundPath", { children?: PathNode[] }];
+
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  write(bytes: ArrayLike<number>) {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  // LEB128, with arithmetic so values above 2^31 survive.
+  uint(value: number) {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) + 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  int(value: number) {
+    this.uint(value < 0 ? -2 * value - 1 : 2 * value);
+  }
+
+  float(value: number) {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    this.write(bytes);
+  }
+
+  finish() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  byte() {
+    const value = this.bytes[this.offset++];
+    if (value === undefined) throw new Error("Unexpected end of data");
+    return value;
+  }
+
+  read(size: number) {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error("Unexpected end of data");
+    }
+    const bytes = this.bytes.subarray(this.offset, this.offset + size);
+    this.offset += size;
+    return bytes;
+  }
+
+  uint() {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  int() {
+    const value = this.uint();
+    return value % 2 ? -(value + 1) / 2 : value / 2;
+  }
+
+  float() {
+    const bytes = this.read(8).slice();
+    return new DataView(bytes.buffer).getFloat64(0);
+  }
+}
+
+const isUUID = (uid: string) => validate(uid) && uid === uid.toLowerCase();
+
+const isPoint = (v: unknown): v is Point =>
+  Array.isArray(v) &&
+  v.length === 2 &&
+  typeof v[0] === "number" &&
+  typeof v[1] === "number";
+
+const isSegment = (v: unknown): v is SegmentJSON =>
+  isPoint(v) || (Array.isArray(v) && v.length === 3 && v.every(isPoint));
+
+const isPathNode = (v: unknown): v is PathNode => {
+  if (!Array.isArray(v) || v.length !== 2 || v[0] !== "Path") return false;
+  const { segments } = v[1] ?? {};
+  return (
+    segments === undefined ||
+    (Array.isArray(segments) && segments.every(isSegment))
+  );
+};
+
+const isCompoundNode = (v: unknown): v is CompoundNode => {
+  if (!Array.isArray(v) || v.length !== 2 || v[0] !== "CompoundPath") {
+    return false;
+  }
+  const { children } = v[1] ?? {};
+  return (
+    children === undefined ||
+    (Array.isArray(children) && children.every(isPathNode))
+  );
+};
+
+// the item without its geometry, so paths with the same style share it.
+const toTemplate = (props: object, key: string) =>
+  JSON.stringify(key in props ? { ...props, [key]: null } : props);
+
+class Encoder {
+  readonly body = new ByteWriter();
+  private strings: string[] = [];
+  private stringIndex = new Map<string, number>();
+  private scale: number;
+
+  constructor(readonly precision: number) {
+    this.scale = 10 ** precision;
+  }
+
+  string(value: string) {
+    let index = this.stringIndex.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.stringIndex.set(value, index);
+    }
+    this.body.uint(index);
+  }
+
+  uid(uid: string) {
+    if (isUUID(uid)) this.body.write(parse(uid));
+    else this.string(uid);
+  }
+
+  record(stroke: StrokeData) {
+    const { body } = this;
+    const { uid, timestamp } = stroke;
+    const origin = stroke.type === "STROKE" ? undefined : stroke.originUid;
+    const layer =
+      stroke.type === "STROKE" || stroke.type === "MUTATE"
+        ? stroke.layer
+        : undefined;
+    const typeIndex = STROKE_TYPES.indexOf(stroke.type);
+    let header = Math.min(typeIndex, EXTENDED_TYPE);
+    if (isUUID(uid)) header |= UID_IS_UUID;
+    if (origin && isUUID(origin)) header |= ORIGIN_IS_UUID;
+    if (!Number.isSafeInteger(timestamp)) header |= FLOAT_TIMESTAMP;
+    if (layer !== undefined) header |= HAS_LAYER;
+    if (layer !== undefined && isUUID(layer)) header |= LAYER_IS_UUID;
+    body.byte(header);
+    if (typeIndex >= EXTENDED_TYPE) body.uint(typeIndex);
+
+    this.uid(uid);
+    if (origin !== undefined) this.uid(origin);
+    if (header & FLOAT_TIMESTAMP) body.float(timestamp);
+    else body.int(timestamp);
+    if (layer !== undefined) this.uid(layer);
+    if (stroke.type === "LAYER") {
+      const { name, order, visible, locked, opacity } = stroke;
+      this.string(JSON.stringify({ name, order, visible, locked, opacity }));
+    } else if (stroke.type === "ORDER") {
+      body.float(stroke.z);
+    } else if (stroke.type === "GROUP") {
+      this.string(JSON.stringify(stroke.members));
+    } else if (stroke.type !== "HIDE") {
+      this.pathData(stroke.pathData);
+    }
+  }
+
+  private pathData(pathData: string) {
+    let json: unknown;
+    try {
+      json = JSON.parse(pathData);
+    } catch (e) {
+      json = undefined;
+    }
+    // anything that wouldn't be rebuilt verbatim is kept as text.
+    const exact = json !== undefined && JSON.stringify(json) === pathData;
+    if (exact && isPathNode(json) && this.canQuantize(json)) {
+      this.body.uint(PATH);
+      this.path(json);
+    } else if (
+      exact &&
+      isCompoundNode(json) &&
+      (json[1].children ?? []).every((child) => this.canQuantize(child))
+    ) {
+      const [, props] = json;
+      const children = props.children ?? [];
+      this.body.uint(COMPOUND_PATH);
+      this.string(toTemplate(props, "children"));
+      this.body.uint(children.length);
+      children.forEach((child) => this.path(child));
+    } else {
+      this.body.uint(RAW);
+      this.string(pathData);
+    }
+  }
+
+  private canQuantize([, { segments = [] }]: PathNode) {
+    const max = Number.MAX_SAFE_INTEGER / this.scale / 2;
+    const check = ([x, y]: Point) => Math.abs(x) < max && Math.abs(y) < max;
+    return segments.every((seg) =>
+      isPoint(seg) ? check(seg) : seg.every(check)
+    );
+  }
+
+  private path([, props]: PathNode) {
+    const { body, scale } = this;
+    const segments = props.segments ?? [];
+    this.string(toTemplate(props, "segments"));
+    body.uint(segments.length);
+    let prevX = 0;
+    let prevY = 0;
+    segments.forEach((segment) => {
+      const handles = isPoint(segment) ? undefined : segment;
+      const [x, y] = handles ? handles[0] : (segment as Point);
+      const qx = Math.round(x * scale);
+      const qy = Math.round(y * scale);
+      body.byte(handles ? 1 : 0);
+      body.int(qx - prevX);
+      body.int(qy - prevY);
+      [prevX, prevY] = [qx, qy];
+      handles?.slice(1).forEach(([hx, hy]) => {
+        body.int(Math.round(hx * scale));
+        body.int(Math.round(hy * scale));
+      });
+    });
+  }
+
+  finish({ version = 0, operations }: FlatState) {
+    const { body } = this;
+    body.uint(operations ? 1 : 0);
+    if (operations) this.string(JSON.stringify(operations));
+
+    const out = new ByteWriter();
+    out.write(MAGIC);
+    out.byte(BINARY_VERSION);
+    out.byte(this.precision);
+    // the schema version, for `migrateFlatState`.
+    out.uint(version);
+    out.uint(this.strings.length);
+    const encoder = new TextEncoder();
+    this.strings.forEach((value) => {
+      const bytes = encoder.encode(value);
+      out.uint(bytes.length);
+      out.write(bytes);
+    });
+    out.write(body.finish());
+    return out.finish();
+  }
+}
+
+export const isBinaryFlatState = (bytes: Uint8Array) =>
+  MAGIC.every((byte, i) => bytes[i] === byte);
+
+export const encodeFlatState = (
+  flatState: FlatState,
+  options: BinaryEncodeOptions = {}
+) => {
+  const precision = Math.min(
+    6,
+    Math.max(0, Math.round(options.precision ?? 2))
+  );
+  const encoder = new Encoder(precision);
+  const entries = Object.entries(flatState.strokes);
+  encoder.body.uint(entries.length);
+  let prevTime = 0;
+  entries.forEach(([key, stroke]) => {
+    const { uid, timestamp } = stroke;
+    // records are keyed by their uid, as `DrawState` keeps them.
+    if (key !== uid) {
+      throw new Error(`Record ${key} doesn't match its uid ${uid}`);
+    }
+    // timestamps are stored as deltas from the previous integer one.
+    const delta = Number.isSafeInteger(timestamp)
+      ? timestamp - prevTime
+      : timestamp;
+    encoder.record({ ...stroke, timestamp: delta });
+    if (Number.isSafeInteger(timestamp)) prevTime = timestamp;
+  });
+  return encoder.finish(flatState);
+};
+
+export const decodeFlatState = (bytes: Uint8Array): FlatState => {
+  if (!isBinaryFlatState(bytes)) throw new Error("Not a binary FlatState");
+  const reader = new ByteReader(bytes);
+  reader.read(MAGIC.length);
+  const version = reader.byte();
+  if (version > BINARY_VERSION) {
+    throw new Error(`Unsupported binary FlatState version ${version}`);
+  }
+  const scale = 10 ** reader.byte();
+  const flatVersion = reader.uint();
+
+  const decoder = new TextDecoder();
+  const strings: string[] = [];
+  const stringCount = reader.uint();
+  for (let i = 0; i < stringCount; i += 1) {
+    strings.push(decoder.decode(reader.read(reader.uint())));
+  }
+  const string = () => {
+    const index = reader.uint();
+    const value = strings[index];
+    if (value === undefined) throw new Error(`Invalid string index ${index}`);
+    return value;
+  };
+  const uid = (isUUID: boolean) =>
+    isUUID ? stringify(reader.read(16)) : string();
+
+  const path = (): PathNode => {
+    const props = JSON.parse(string());
+    const count = reader.uint();
+    const segments: SegmentJSON[] = [];
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < count; i += 1) {
+      const hasHandles = reader.byte();
+      x += reader.int();
+      y += reader.int();
+      const point: Point = [x / scale, y / scale];
+      if (!hasHandles) {
+        segments.push(point);
+        continue;
+      }
+      const handleIn: Point = [reader.int() / scale, reader.int() / scale];
+      const handleOut: Point = [reader.int() / scale, reader.int() / scale];
+      segments.push([point, handleIn, handleOut]);
+    }
+    if ("segments" in props) props.segments = segments;
+    return ["Path", props];
+  };
+
+  const pathData = () => {
+    const kind = reader.uint();
+    switch (kind) {
+      case RAW:
+        return string();
+      case PATH:
+        return JSON.stringify(path());
+      case COMPOUND_PATH: {
+        const props = JSON.parse(string());
+        const children: PathNode[] = [];
+        const count = reader.uint();
+        for (let i = 0; i < count; i += 1) children.push(path());
+        if ("children" in props) props.children = children;
+        return JSON.stringify(["CompoundPath", props]);
+      }
+      default:
+        throw new Error(`Unknown item kind ${kind}`);
+    }
+  };
+
+  const strokes: StrokeRecord = {};
+  const recordCount = reader.uint();
+  let prevTime = 0;
+  for (let i = 0; i < recordCount; i += 1) {
+    const header = reader.byte();
+    let typeIndex = header & 3;
+    if (typeIndex === EXTENDED_TYPE) typeIndex = reader.uint();
+    const type = STROKE_TYPES[typeIndex];
+    if (!type) throw new Error(`Unknown record type in record ${i}`);
+    const strokeUid = uid(!!(header & UID_IS_UUID));
+    const originUid = type !== "STROKE" ? uid(!!(header & ORIGIN_IS_UUID)) : "";
+    let timestamp: number;
+    if (header & FLOAT_TIMESTAMP) {
+      timestamp = reader.float();
+    } else {
+      timestamp = prevTime + reader.int();
+      prevTime = timestamp;
+    }
+    const layer = header & HAS_LAYER ? uid(!!(header & LAYER_IS_UUID)) : "";
+    const base = { uid: strokeUid, timestamp, ...(layer && { layer }) };
+    strokes[strokeUid] =
+      type === "STROKE"
+        ? { ...base, type, pathData: pathData() }
+        : type === "MUTATE"
+        ? { ...base, type, originUid, pathData: pathData() }
+        : type === "LAYER"
+        ? {
+            uid: strokeUid,
+            timestamp,
+            type,
+            originUid,
+            ...JSON.parse(string()),
+          }
+        : type === "ORDER"
+        ? { uid: strokeUid, timestamp, type, originUid, z: reader.float() }
+        : type === "GROUP"
+        ? {
+            uid: strokeUid,
+            timestamp,
+            type,
+            originUid,
+            members: JSON.parse(string()),
+          }
+        : { uid: strokeUid, timestamp, type, originUid };
+  }
+
+  const flatState: FlatState = { version: flatVersion, strokes };
+  if (reader.uint()) flatState.operations = JSON.parse(string());
+  return flatState;
+};
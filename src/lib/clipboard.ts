@@ -0,0 +1,75 @@
+import { DrawState, StrokeGroups } from "./DrawState";
+
+// the format of copied strokes. The async clipboard api only takes custom
+// formats with the "web " prefix.
+export const CLIPBOARD_TYPE = "web application/x-draft-pad+json";
+export const CLIPBOARD_VERSION = 1;
+
+export interface ClipboardStrokes {
+  version: number;
+  // pathData, moved so that the copied strokes start at the origin.
+  strokes: string[];
+  // groups of stroke indexes and of other groups, see `DrawState.copyGroups`.
+  groups: [string, string[]][];
+  width: number;
+  height: number;
+}
+
+// the copied strokes as uid and moved pathData, keeping their groups.
+export const toClipboardStrokes = (
+  copied: [string, string][],
+  groups: StrokeGroups,
+  width: number,
+  height: number
+): ClipboardStrokes => {
+  const indexes = new Map(
+    copied.map(([uid], i): [string, string] => [uid, String(i)])
+  );
+  return {
+    version: CLIPBOARD_VERSION,
+    strokes: copied.map(([, pathData]) => pathData),
+    groups: DrawState.copyGroups(groups, indexes),
+    width,
+    height,
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+export const parseClipboardStrokes = (
+  text: string
+): ClipboardStrokes | undefined => {
+  let data: Partial<ClipboardStrokes>;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return;
+  }
+  if (!data || data.version !== CLIPBOARD_VERSION) return;
+  const { strokes, groups, width, height } = data;
+  if (!isStringArray(strokes) || !Array.isArray(groups)) return;
+  if (typeof width !== "number" || typeof height !== "number") return;
+  const validGroups = groups.every(
+    (group) =>
+      Array.isArray(group) &&
+      typeof group[0] === "string" &&
+      isStringArray(group[1])
+  );
+  if (!validGroups) return;
+  return { version: CLIPBOARD_VERSION, strokes, groups, width, height };
+};
+
+// new groups for the pasted strokes, given the uid each one was added with.
+export const getPastedGroups = (
+  { groups }: ClipboardStrokes,
+  uids: (string | undefined)[]
+) => {
+  const parents = new Map<string, string>();
+  groups.forEach(([uid, members]) =>
+    members.forEach((member) => parents.set(member, uid))
+  );
+  const copies = new Map<string, string>();
+  uids.forEach((uid, i) => uid && copies.set(String(i), uid));
+  return DrawState.copyGroups({ members: new Map(groups), parents }, copies);
+};
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CollabSession, MemoryHub } from "./collab";
+import { DrawState } from "./DrawState";
+
+const path = (x: number) =>
+  JSON.stringify([
+    "Path",
+    {
+      segments: [
+        [x, 0],
+        [x, 10],
+      ],
+    },
+  ]);
+
+// records are ordered by time, keep the steps apart.
+const tick = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+const view = (session: CollabSession) =>
+  DrawState.mergeStates(session.getState(), ...session.getOtherStates())
+    .map((stroke) => stroke.pathData)
+    .toObject();
+
+const assertConverged = (...sessions: CollabSession[]) => {
+  const [first, ...rest] = sessions.map(view);
+  rest.forEach((other) => assert.deepEqual(other, first));
+  return first ?? {};
+};
+
+const lastUid = (session: CollabSession) =>
+  session.getState().getStrokeMap().last()?.uid ?? "";
+
+const setup = () => {
+  const hub = new MemoryHub();
+  const empty = DrawState.createEmpty(1, 100);
+  const a = new CollabSession(hub.connect(), empty, "a");
+  const b = new CollabSession(hub.connect(), empty, "b");
+  return { hub, a, b };
+};
+
+test("sessions converge after adding and erasing", async () => {
+  const { a, b } = setup();
+  a.setState((ds) => DrawState.addStroke(ds, path(1)));
+  const first = lastUid(a);
+  await tick();
+  b.setState((ds) => DrawState.addStroke(ds, path(2)));
+  const second = lastUid(b);
+  assert.deepEqual(assertConverged(a, b), {
+    [first]: path(1),
+    [second]: path(2),
+  });
+
+  await tick();
+  b.setState((ds) => DrawState.eraseStrokes(ds, [first]));
+  assert.deepEqual(assertConverged(a, b), { [second]: path(2) });
+});
+
+test("sessions converge after mutating, undo and redo", async () => {
+  const { a, b } = setup();
+  a.setState((ds) => DrawState.addStroke(ds, path(1)));
+  const uid = lastUid(a);
+  await tick();
+  b.setState((ds) => DrawState.mutateStrokes(ds, [[uid, path(3)]]));
+  assert.deepEqual(assertConverged(a, b), { [uid]: path(3) });
+
+  // undo only reverts the session's own operations.
+  await tick();
+  b.undo();
+  assert.deepEqual(assertConverged(a, b), { [uid]: path(1) });
+  await tick();
+  b.redo();
+  assert.deepEqual(assertConverged(a, b), { [uid]: path(3) });
+  await tick();
+  a.undo();
+  assert.deepEqual(assertConverged(a, b), {});
+  await tick();
+  a.redo();
+  assert.deepEqual(assertConverged(a, b), { [uid]: path(3) });
+});
+
+test("sessions converge after compacting", async () => {
+  const { a, b } = setup();
+  a.setState((ds) => DrawState.addStroke(ds, path(1)));
+  const uid = lastUid(a);
+  await tick();
+  a.setState((ds) => DrawState.addStroke(ds, path(2)));
+  const erased = lastUid(a);
+  await tick();
+  a.setState((ds) => DrawState.mutateStrokes(ds, [[uid, path(3)]]));
+  await tick();
+  a.setState((ds) => DrawState.mutateStrokes(ds, [[uid, path(4)]]));
+  await tick();
+  b.setState((ds) => DrawState.eraseStrokes(ds, [erased]));
+  const before = assertConverged(a, b);
+
+  await tick();
+  a.compact();
+  b.compact();
+  assert.deepEqual(assertConverged(a, b), before);
+  assert.deepEqual(before, { [uid]: path(4) });
+  // the mutation was folded into the stroke.
+  const records = a.getState().getStrokeMap().toList().toArray();
+  assert.deepEqual(
+    records.map(({ type }) => type),
+    ["STROKE", "STROKE"]
+  );
+});
+
+test("a late session catches up from the hub log", async () => {
+  const { hub, a, b } = setup();
+  a.setState((ds) => DrawState.addStroke(ds, path(1)));
+  await tick();
+  b.setState((ds) => DrawState.addStroke(ds, path(2)));
+  await tick();
+  b.setState((ds) => DrawState.eraseStrokes(ds, [lastUid(a)]));
+
+  const empty = DrawState.createEmpty(1, 100);
+  const c = new CollabSession(hub.connect(), empty, "c");
+  assertConverged(a, b, c);
+  assert.equal(hub.getLog().length, 3);
+});
@@ -0,0 +1,172 @@
+import { v4 } from "uuid";
+import { DrawState, StrokePatch } from "./DrawState";
+
+export type VectorClock = { [clientID: string]: number };
+
+export interface SyncOp {
+  clientID: string;
+  // 1-based, per client.
+  seq: number;
+  // ops of other clients applied by the author before this one.
+  clock: VectorClock;
+  patch: StrokePatch;
+}
+
+export interface Transport {
+  send: (op: SyncOp) => void;
+  subscribe: (listener: (op: SyncOp) => void) => () => void;
+}
+
+export type StateAction = DrawState | ((prev: DrawState) => DrawState);
+
+export class CollabSession {
+  private state: DrawState;
+  private seq = 0;
+  private applied: VectorClock = {};
+  private pending: SyncOp[] = [];
+  private replicas = new Map<string, DrawState>();
+  private otherStates: DrawState[] = [];
+  private listeners = new Set<() => void>();
+  private unsubscribe: () => void;
+
+  constructor(
+    private transport: Transport,
+    initialState: DrawState,
+    public readonly clientID = v4()
+  ) {
+    this.state = initialState;
+    this.unsubscribe = transport.subscribe(this.receive);
+    // publish strokes loaded before the session started.
+    this.emit(DrawState.diffStrokes(this.createEmpty(), initialState));
+  }
+
+  getState = () => this.state;
+
+  getOtherStates = () => this.otherStates;
+
+  getClock = (): VectorClock => ({
+    ...this.applied,
+    [this.clientID]: this.seq,
+  });
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  };
+
+  // use as the `onChange` prop of `<Draw>`.
+  setState = (action: StateAction) => {
+    const prev = this.state;
+    const next = typeof action === "function" ? action(prev) : action;
+    if (next === prev) return;
+    this.state = next;
+    this.emit(DrawState.diffStrokes(prev, next));
+    this.notify();
+  };
+
+  // selective undo/redo of this client's own operations.
+  undo = () => this.setState(DrawState.revert);
+
+  redo = () => this.setState(DrawState.reapply);
+
+  // see `DrawState.compact`, the replicas are taken as the other users.
+  compact = (retain?: number) =>
+    this.setState((prev) => DrawState.compact(prev, this.otherStates, retain));
+
+  receive = (op: SyncOp) => {
+    const { clientID, seq } = op;
+    if (clientID === this.clientID) return;
+    if (seq <= (this.applied[clientID] ?? 0)) return;
+    const queued = this.pending.some(
+      (p) => p.clientID === clientID && p.seq === seq
+    );
+    if (queued) return;
+    this.pending.push(op);
+    this.flush();
+  };
+
+  destroy() {
+    this.unsubscribe();
+    this.listeners.clear();
+  }
+
+  private createEmpty() {
+    const { width, height } = this.state;
+    return DrawState.createEmpty(height / width, width);
+  }
+
+  private emit(patch: StrokePatch) {
+    if (!patch.removed.length && !patch.upserted.length) return;
+    this.seq += 1;
+    const clock = { ...this.applied };
+    this.transport.send({
+      clientID: this.clientID,
+      seq: this.seq,
+      clock,
+      patch,
+    });
+  }
+
+  private isReady({ clientID, seq, clock }: SyncOp) {
+    if (seq !== (this.applied[clientID] ?? 0) + 1) return false;
+    return Object.keys(clock).every((id) => {
+      const applied = id === this.clientID ? this.seq : this.applied[id] ?? 0;
+      return (clock[id] ?? 0) <= applied;
+    });
+  }
+
+  // apply queued ops in causal order.
+  private flush() {
+    let changed = false;
+    let progress = true;
+    while (progress) {
+      progress = false;
+      this.pending = this.pending.filter((op) => {
+        const { clientID, seq, patch } = op;
+        if (seq <= (this.applied[clientID] ?? 0)) return false;
+        if (!this.isReady(op)) return true;
+        const replica = this.replicas.get(clientID) ?? this.createEmpty();
+        this.replicas.set(clientID, DrawState.applyPatch(replica, patch));
+        this.applied[clientID] = seq;
+        progress = changed = true;
+        return false;
+      });
+    }
+    if (!changed) return;
+    this.otherStates = Array.from(this.replicas.keys())
+      .sort()
+      .map((id) => this.replicas.get(id))
+      .filter((ds): ds is DrawState => !!ds);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// relays ops between sessions in the same process, replaying the log to
+// late subscribers. ops go through JSON like they would over the wire.
+export class MemoryHub {
+  private log: SyncOp[] = [];
+  private listeners = new Set<(op: SyncOp) => void>();
+
+  getLog() {
+    return this.log.slice();
+  }
+
+  connect(): Transport {
+    return {
+      send: (op) => {
+        const copy: SyncOp = JSON.parse(JSON.stringify(op));
+        this.log.push(copy);
+        Array.from(this.listeners).forEach((listener) => listener(copy));
+      },
+      subscribe: (listener) => {
+        this.listeners.add(listener);
+        this.log.forEach(listener);
+        return () => void this.listeners.delete(listener);
+      },
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createLayer, DrawState } from "./DrawState";
+import { exportPDF } from "./pdf";
+
+const path = (x: number) =>
+  JSON.stringify([
+    "Path",
+    {
+      segments: [
+        [x, 0],
+        [x, 10],
+      ],
+      strokeColor: [0, 0, 0],
+      strokeWidth: 1,
+    },
+  ]);
+
+const setup = () => {
+  const faded = { ...createLayer("Faded", 1), opacity: 0.5 };
+  let ds = DrawState.createEmpty(1, 100);
+  ds = DrawState.setLayers(ds, [faded]);
+  ds = DrawState.addStroke(ds, path(1));
+  ds = DrawState.addStroke(ds, path(2), faded.uid);
+  ds = DrawState.addStroke(ds, path(3), faded.uid);
+  return ds;
+};
+
+test("the svg export fades a layer as a whole", () => {
+  const svg = DrawState.exportSVG(setup(), [], { background: null });
+  const groups = svg.match(/<g opacity="0.5">.*?<\/g>/g) ?? [];
+  assert.equal(groups.length, 1);
+  assert.equal(groups[0]?.match(/<path /g)?.length, 2);
+  assert.equal(svg.match(/<path /g)?.length, 3);
+});
+
+test("the pdf export sets the alpha of faded layers", () => {
+  const pdf = exportPDF([{ drawState: setup() }], {
+    background: null,
+    compress: false,
+  });
+  const text = Buffer.from(pdf).toString("latin1");
+  assert.match(text, /\/ExtGState \/CA 0.5 \/ca 0.5 /);
+  assert.equal(text.match(/ gs\n/g)?.length, 2);
+});
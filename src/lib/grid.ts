@@ -0,0 +1,165 @@
+export interface GridRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface NearestOptions<T> {
+  k?: number;
+  maxDistance?: number;
+  // the exact distance to a value, never less than the one to its bounds.
+  distance?: (value: T) => number;
+}
+
+const distToRect = ([px, py]: [number, number], r: GridRect) => {
+  const dx = Math.max(r.x - px, 0, px - (r.x + r.width));
+  const dy = Math.max(r.y - py, 0, py - (r.y + r.height));
+  return Math.hypot(dx, dy);
+};
+
+// a sparse grid of square cells, keyed by "x,y", so that values anywhere on
+// an infinite canvas are found. It is updated value by value, instead of
+// being rebuilt for every change.
+export class SpatialGrid<T> {
+  private cells = new Map<string, Set<T>>();
+  private entries = new Map<T, { bounds: GridRect; keys: string[] }>();
+  // the range of cells ever used, to stop nearest searches.
+  private extent?: [number, number, number, number];
+
+  constructor(private cellSize = 100) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  private getRange({ x, y, width, height }: GridRect) {
+    const { cellSize } = this;
+    return [
+      Math.floor(x / cellSize),
+      Math.floor((x + width) / cellSize),
+      Math.floor(y / cellSize),
+      Math.floor((y + height) / cellSize),
+    ] as [number, number, number, number];
+  }
+
+  has(value: T) {
+    return this.entries.has(value);
+  }
+
+  insert(value: T, bounds: GridRect) {
+    this.remove(value);
+    const [xmin, xmax, ymin, ymax] = this.getRange(bounds);
+    const keys: string[] = [];
+    for (let x = xmin; x <= xmax; x += 1) {
+      for (let y = ymin; y <= ymax; y += 1) {
+        const key = `${x},${y}`;
+        const cell = this.cells.get(key) ?? new Set<T>();
+        this.cells.set(key, cell);
+        cell.add(value);
+        keys.push(key);
+      }
+    }
+    const { x, y, width, height } = bounds;
+    this.entries.set(value, { bounds: { x, y, width, height }, keys });
+    const [x0, x1, y0, y1] = this.extent ?? [xmin, xmax, ymin, ymax];
+    this.extent = [
+      Math.min(x0, xmin),
+      Math.max(x1, xmax),
+      Math.min(y0, ymin),
+      Math.max(y1, ymax),
+    ];
+  }
+
+  remove(value: T) {
+    const entry = this.entries.get(value);
+    if (!entry) return false;
+    entry.keys.forEach((key) => {
+      const cell = this.cells.get(key);
+      cell?.delete(value);
+      if (cell && !cell.size) this.cells.delete(key);
+    });
+    this.entries.delete(value);
+    return true;
+  }
+
+  clear() {
+    this.cells.clear();
+    this.entries.clear();
+    this.extent = undefined;
+  }
+
+  // values whose bounds intersect the given ones.
+  search(bounds: GridRect) {
+    const found = new Set<T>();
+    const [xmin, xmax, ymin, ymax] = this.getRange(bounds);
+    const { x, y, width, height } = bounds;
+    for (let cx = xmin; cx <= xmax; cx += 1) {
+      for (let cy = ymin; cy <= ymax; cy += 1) {
+        this.cells.get(`${cx},${cy}`)?.forEach((value) => {
+          if (found.has(value)) return;
+          const b = this.entries.get(value)?.bounds;
+          if (!b) return;
+          if (b.x > x + width || b.x + b.width < x) return;
+          if (b.y > y + height || b.y + b.height < y) return;
+          found.add(value);
+        });
+      }
+    }
+    return Array.from(found);
+  }
+
+  // the `k` values closest to a point, searching the cells ring by ring.
+  nearest(point: [number, number], options: NearestOptions<T> = {}) {
+    const { k = 1, maxDistance = Infinity, distance } = options;
+    const { cellSize, extent } = this;
+    if (!extent || k < 1) return [];
+    const cx = Math.floor(point[0] / cellSize);
+    const cy = Math.floor(point[1] / cellSize);
+    const [x0, x1, y0, y1] = extent;
+    const maxRing = Math.max(cx - x0, x1 - cx, cy - y0, y1 - cy, 0);
+
+    const seen = new Set<T>();
+    // found by their bounds, not yet measured exactly.
+    let pending: { value: T; d: number }[] = [];
+    const results: { value: T; d: number }[] = [];
+    const add = (value: T) => {
+      if (seen.has(value)) return;
+      seen.add(value);
+      const bounds = this.entries.get(value)?.bounds;
+      if (bounds) pending.push({ value, d: distToRect(point, bounds) });
+    };
+    const visit = (x: number, y: number) =>
+      this.cells.get(`${x},${y}`)?.forEach(add);
+
+    for (let r = 0; ; r += 1) {
+      // rings with more cells than the grid itself are cheaper to scan whole.
+      const last = r >= maxRing || 8 * r > this.cells.size;
+      if (last) {
+        this.cells.forEach((cell) => cell.forEach(add));
+      } else {
+        for (let x = cx - r; x <= cx + r; x += 1) {
+          visit(x, cy - r);
+          if (r) visit(x, cy + r);
+        }
+        for (let y = cy - r + 1; y <= cy + r - 1; y += 1) {
+          visit(cx - r, y);
+          visit(cx + r, y);
+        }
+      }
+      // everything closer than this has been seen.
+      const reach = last ? Infinity : r * cellSize;
+      pending = pending.filter((candidate) => {
+        if (candidate.d > maxDistance) return false;
+        if (candidate.d >= reach) return true;
+        const d = distance ? distance(candidate.value) : candidate.d;
+        if (d <= maxDistance) results.push({ value: candidate.value, d });
+        return false;
+      });
+      results.sort((a, b) => a.d - b.d);
+      const kth = results[k - 1];
+      if (last || (kth && kth.d <= reach) || reach > maxDistance) break;
+    }
+    return results.slice(0, k).map(({ value }) => value);
+  }
+}
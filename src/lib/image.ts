@@ -0,0 +1,207 @@
+export interface ImageInfo {
+  mime: string;
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+}
+
+const DATA_URL_REG = /^data:([^;,]+)?((?:;[^;,]*)*?)(;base64)?,([\s\S]*)$/;
+
+export const decodeDataURL = (src: string) => {
+  const match = src.match(DATA_URL_REG);
+  if (!match) return;
+  const [, mime = "text/plain", , base64, body = ""] = match;
+  let binary: string;
+  try {
+    binary = base64 ? atob(body) : decodeURIComponent(body);
+  } catch (e) {
+    return;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return { mime, bytes };
+};
+
+export const encodeDataURL = (mime: string, bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    const chunk = bytes.subarray(i, i + 0x8000);
+    binary += String.fromCharCode.apply(null, Array.from(chunk));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+const readU16 = (b: Uint8Array, i: number) =>
+  ((b[i] ?? 0) << 8) | (b[i + 1] ?? 0);
+const readU32 = (b: Uint8Array, i: number) =>
+  readU16(b, i) * 0x10000 + readU16(b, i + 2);
+
+// walk the JPEG markers until a start-of-frame one.
+const findJPEGFrame = (b: Uint8Array) => {
+  let i = 2;
+  while (i + 9 < b.length) {
+    if (b[i] !== 0xff) return;
+    const marker = b[i + 1] ?? 0;
+    const isSOF =
+      marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+    if (isSOF) return i;
+    i += 2 + readU16(b, i + 2);
+  }
+};
+
+const sniffSize = (b: Uint8Array) => {
+  // PNG: IHDR is always the first chunk.
+  if (b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47) {
+    return { mime: "image/png", width: readU32(b, 16), height: readU32(b, 20) };
+  }
+  // GIF: logical screen size, little endian.
+  if (b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46) {
+    const width = (b[6] ?? 0) | ((b[7] ?? 0) << 8);
+    const height = (b[8] ?? 0) | ((b[9] ?? 0) << 8);
+    return { mime: "image/gif", width, height };
+  }
+  if (b[0] === 0xff && b[1] === 0xd8) {
+    const i = findJPEGFrame(b);
+    if (i === undefined) return;
+    return {
+      mime: "image/jpeg",
+      width: readU16(b, i + 7),
+      height: readU16(b, i + 5),
+    };
+  }
+};
+
+// read the natural size of an embedded image without a DOM.
+export const getImageInfo = (src: string): ImageInfo | undefined => {
+  const decoded = decodeDataURL(src);
+  if (!decoded) return;
+  const size = sniffSize(decoded.bytes);
+  if (!size) return;
+  return { ...size, bytes: decoded.bytes };
+};
+
+export interface DecodedPNG {
+  width: number;
+  height: number;
+  // 1 for gray, 3 for rgb.
+  colors: 1 | 3;
+  pixels: Uint8Array;
+  alpha?: Uint8Array;
+}
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// decode a non-interlaced png into 8-bit color and alpha planes.
+export const decodePNG = (
+  bytes: Uint8Array,
+  inflate: (data: Uint8Array) => Uint8Array
+): DecodedPNG | undefined => {
+  const width = readU32(bytes, 16);
+  const height = readU32(bytes, 20);
+  const bitDepth = bytes[24] ?? 8;
+  const colorType = bytes[25] ?? 0;
+  if (bytes[28]) return; // interlaced
+
+  const idat: Uint8Array[] = [];
+  let palette: Uint8Array | undefined;
+  let trns: Uint8Array | undefined;
+  for (let i = 8; i + 8 <= bytes.length; ) {
+    const length = readU32(bytes, i);
+    const type = String.fromCharCode.apply(
+      null,
+      Array.from(bytes.subarray(i + 4, i + 8))
+    );
+    const data = bytes.subarray(i + 8, i + 8 + length);
+    if (type === "IDAT") idat.push(data);
+    if (type === "PLTE") palette = data;
+    if (type === "tRNS") trns = data;
+    if (type === "IEND") break;
+    i += 12 + length;
+  }
+  const compressed = new Uint8Array(idat.reduce((n, d) => n + d.length, 0));
+  idat.reduce((offset, d) => (compressed.set(d, offset), offset + d.length), 0);
+  const raw = inflate(compressed);
+
+  const channels = [1, 0, 3, 1, 2, 0, 4][colorType];
+  if (!channels || (colorType === 3 && !palette)) return;
+  const bpp = Math.max(1, (channels * bitDepth) >> 3);
+  const stride = Math.ceil((width * channels * bitDepth) / 8);
+
+  // undo the per-scanline filters in place.
+  const lines = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y += 1) {
+    const filter = raw[y * (stride + 1)] ?? 0;
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    for (let x = 0; x < stride; x += 1) {
+      const value = raw[src + x] ?? 0;
+      const a = x >= bpp ? lines[dst + x - bpp] ?? 0 : 0;
+      const b = y > 0 ? lines[dst + x - stride] ?? 0 : 0;
+      const c = x >= bpp && y > 0 ? lines[dst + x - stride - bpp] ?? 0 : 0;
+      const predicted = [0, a, b, (a + b) >> 1, paeth(a, b, c)][filter] ?? 0;
+      lines[dst + x] = (value + predicted) & 0xff;
+    }
+  }
+
+  const sample = (y: number, index: number) => {
+    const row = y * stride;
+    if (bitDepth === 16) return lines[row + index * 2] ?? 0;
+    if (bitDepth === 8) return lines[row + index] ?? 0;
+    const bitOffset = index * bitDepth;
+    const byte = lines[row + (bitOffset >> 3)] ?? 0;
+    const shift = 8 - bitDepth - (bitOffset & 7);
+    return (byte >> shift) & ((1 << bitDepth) - 1);
+  };
+
+  const colors = colorType === 0 || colorType === 4 ? 1 : 3;
+  const hasAlpha = colorType === 4 || colorType === 6 || !!trns;
+  const pixels = new Uint8Array(width * height * colors);
+  const alpha = hasAlpha ? new Uint8Array(width * height) : undefined;
+  // 16-bit samples are read by their high byte already.
+  const scaleGray =
+    colorType === 0 && bitDepth < 16 ? 255 / ((1 << bitDepth) - 1) : 1;
+  const trnsKey = (s: number) =>
+    trns ? readU16(trns, 2 * s) >> (bitDepth === 16 ? 8 : 0) : -1;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const p = y * width + x;
+      const s = x * channels;
+      if (colorType === 3) {
+        const index = sample(y, s);
+        pixels.set(palette?.subarray(index * 3, index * 3 + 3) ?? [], p * 3);
+        if (alpha) alpha[p] = trns?.[index] ?? 255;
+      } else if (colors === 1) {
+        const gray = sample(y, s);
+        pixels[p] = Math.round(gray * scaleGray);
+        if (alpha) {
+          alpha[p] =
+            colorType === 4 ? sample(y, s + 1) : gray === trnsKey(0) ? 0 : 255;
+        }
+      } else {
+        pixels[p * 3] = sample(y, s);
+        pixels[p * 3 + 1] = sample(y, s + 1);
+        pixels[p * 3 + 2] = sample(y, s + 2);
+        if (colorType === 6 && alpha) alpha[p] = sample(y, s + 3);
+        if (colorType === 2 && alpha) {
+          const isKey = [0, 1, 2].every((c) => sample(y, s + c) === trnsKey(c));
+          alpha[p] = isKey ? 0 : 255;
+        }
+      }
+    }
+  }
+  return { width, height, colors, pixels, alpha };
+};
+
+export const getJPEGComponents = (bytes: Uint8Array) => {
+  const i = findJPEGFrame(bytes);
+  return (i !== undefined && bytes[i + 9]) || 3;
+};
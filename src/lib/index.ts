@@ -1,2 +1,15 @@
 export * from "./DrawCtrl";
 export * from "./DrawState";
+export * from "./svg";
+export * from "./pdf";
+export * from "./collab";
+export * from "./websocket";
+export * from "./awareness";
+export * from "./binary";
+export * from "./schema";
+export * from "./playback";
+export * from "./richText";
+export * from "./render";
+export * from "./offscreen";
+export * from "./tiles";
+export * from "./clipboard";
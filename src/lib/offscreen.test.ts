@@ -0,0 +1,180 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createLocalRenderPort,
+  createStrokeRenderer,
+  RenderMessage,
+} from "./offscreen";
+import type { Stroke } from "./DrawState";
+import type { TileCanvas } from "./tiles";
+
+type Call = [string, unknown[]];
+
+// a canvas whose 2d context records the calls made on it.
+class FakeCanvas {
+  calls: Call[] = [];
+  private ctx: object;
+
+  constructor(public width: number, public height: number) {
+    const { calls } = this;
+    const state: { [key: string | symbol]: unknown } = { globalAlpha: 1 };
+    this.ctx = new Proxy(state, {
+      get: (target, key) =>
+        key in target
+          ? target[key]
+          : (...args: unknown[]) => calls.push([String(key), args]),
+    });
+  }
+
+  getContext() {
+    return this.ctx;
+  }
+
+  called(name: string) {
+    return this.calls.filter(([n]) => n === name).map(([, args]) => args);
+  }
+}
+
+const stroke = (uid: string, segments: number[][]): Stroke => ({
+  type: "STROKE",
+  uid,
+  timestamp: 0,
+  pathData: JSON.stringify([
+    "Path",
+    { segments, strokeColor: [0, 0, 0], strokeWidth: 2 },
+  ]),
+});
+
+// `createStrokeRenderer` paints a frame later, on a timer outside browsers.
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+const setup = () => {
+  const tiles: FakeCanvas[] = [];
+  const { handle } = createStrokeRenderer({
+    createCanvas: (width, height) => {
+      const canvas = new FakeCanvas(width, height);
+      tiles.push(canvas);
+      return canvas as unknown as TileCanvas;
+    },
+  });
+  const port = createLocalRenderPort(handle);
+  const canvas = new FakeCanvas(0, 0);
+  port.postMessage({
+    type: "init",
+    canvas: canvas as unknown as OffscreenCanvas,
+  });
+  port.postMessage({
+    type: "page",
+    width: 0,
+    height: 0,
+    infinite: true,
+  });
+  return { port, canvas, tiles };
+};
+
+const view = (pixelRatio = 1): RenderMessage => ({
+  type: "view",
+  matrix: [1, 0, 0, 1, 0, 0],
+  width: 300,
+  height: 200,
+  pixelRatio,
+});
+
+test("paints the visible tiles of the strokes", async () => {
+  const { port, canvas, tiles } = setup();
+  port.postMessage(view());
+  port.postMessage({
+    type: "patch",
+    removed: [],
+    upserted: [
+      [
+        stroke("a", [
+          [10, 10],
+          [100, 100],
+        ]),
+        null,
+      ],
+    ],
+  });
+  await nextFrame();
+
+  assert.equal(canvas.width, 300);
+  assert.equal(canvas.height, 200);
+  // 256 pixel tiles at scale 1: two across, one down.
+  const drawn = canvas.called("drawImage");
+  assert.deepEqual(
+    drawn.map((args) => args.slice(1)),
+    [
+      [0, 0, 256, 256],
+      [256, 0, 256, 256],
+    ]
+  );
+  assert.equal(tiles.length, 2);
+  const [first, second] = tiles as [FakeCanvas, FakeCanvas];
+  assert.equal(drawn[0]?.[0], first);
+  assert.deepEqual(first.called("moveTo"), [[10, 10]]);
+  assert.deepEqual(first.called("lineTo"), [[100, 100]]);
+  assert.equal(first.called("stroke").length, 1);
+  // the stroke isn't over the second tile.
+  assert.equal(second.called("stroke").length, 0);
+  port.terminate();
+});
+
+test("repaints only the tiles a patch covers", async () => {
+  const { port, canvas, tiles } = setup();
+  port.postMessage(view());
+  port.postMessage({
+    type: "patch",
+    removed: [],
+    upserted: [
+      [
+        stroke("a", [
+          [10, 10],
+          [100, 100],
+        ]),
+        null,
+      ],
+    ],
+  });
+  await nextFrame();
+  port.postMessage({ type: "patch", removed: ["a"], upserted: [] });
+  await nextFrame();
+
+  // the first tile was rendered again, without the stroke.
+  assert.equal(tiles.length, 3);
+  assert.equal(tiles[2]?.called("stroke").length, 0);
+  const last = canvas.called("drawImage").slice(-2);
+  assert.deepEqual(
+    last.map(([tile]) => tile),
+    [tiles[2], tiles[1]]
+  );
+  port.terminate();
+});
+
+test("renders sharper tiles for a higher pixel ratio", async () => {
+  const { port, canvas, tiles } = setup();
+  port.postMessage(view(2));
+  await nextFrame();
+
+  assert.equal(canvas.width, 600);
+  assert.equal(canvas.height, 400);
+  // tiles of 256 device pixels cover 128 project units.
+  assert.equal(tiles.length, 6);
+  assert.deepEqual(canvas.called("drawImage")[1]?.slice(1), [0, 128, 128, 128]);
+  assert.deepEqual(tiles[0]?.called("scale"), [[2, 2]]);
+  port.terminate();
+});
+
+test("hands the messages over asynchronously until terminated", async () => {
+  const received: RenderMessage[] = [];
+  const port = createLocalRenderPort((message) => received.push(message));
+  port.postMessage({ type: "clearPreview" });
+  assert.equal(received.length, 0);
+  await Promise.resolve();
+  assert.deepEqual(received, [{ type: "clearPreview" }]);
+
+  port.postMessage({ type: "clearPreview" });
+  port.terminate();
+  await nextFrame();
+  assert.equal(received.length, 1);
+});
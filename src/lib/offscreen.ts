@@ -0,0 +1,194 @@
+import type { DrawLayer, Stroke } from "./DrawState";
+import { IDENTITY, Matrix } from "./pathData";
+import { StrokeTiles, TileOptions, TILE_BUDGET } from "./tiles";
+
+// what the pad tells the renderer of committed strokes, in order.
+export type RenderMessage =
+  | { type: "init"; canvas: OffscreenCanvas }
+  // the paper view: project to view matrix and size in css pixels.
+  | {
+      type: "view";
+      matrix: Matrix;
+      width: number;
+      height: number;
+      pixelRatio: number;
+    }
+  | {
+      type: "page";
+      width: number;
+      height: number;
+      infinite: boolean;
+      backgroundImage?: string;
+    }
+  // the change of the merged strokes, as given by `DrawState.diffMerged`.
+  | { type: "patch"; removed: string[]; upserted: [Stroke, string | null][] }
+  // as given by `DrawState.mergeLayers`.
+  | { type: "layers"; layers: DrawLayer[] }
+  // strokes as they look while being erased, moved or edited, by uid.
+  | { type: "preview"; strokes: [string, string][] }
+  | { type: "clearPreview" };
+
+// the main thread end of the renderer, which a `Worker` satisfies.
+export interface RenderPort {
+  postMessage(message: RenderMessage, transfer?: Transferable[]): void;
+  terminate(): void;
+}
+
+export type RendererOptions = Partial<TileOptions>;
+
+const nextFrame = (callback: () => void) => {
+  if (typeof requestAnimationFrame === "function") {
+    requestAnimationFrame(callback);
+  } else {
+    setTimeout(callback, 16);
+  }
+};
+
+// paints the committed strokes on an offscreen canvas, a frame after the
+// messages changing them, from tiles of the visible area.
+export const createStrokeRenderer = (options: RendererOptions = {}) => {
+  let canvas: OffscreenCanvas | undefined;
+  let view = { matrix: IDENTITY as Matrix, width: 0, height: 0, pixelRatio: 1 };
+  let page = { width: 0, height: 0, infinite: false, backgroundImage: "" };
+  let scheduled = false;
+
+  const tiles = new StrokeTiles({
+    createCanvas: (width, height) => new OffscreenCanvas(width, height),
+    ...options,
+    onChange: () => {
+      options.onChange?.();
+      schedule();
+    },
+  });
+
+  const drawBackground = (ctx: OffscreenCanvasRenderingContext2D) => {
+    const { width, height, backgroundImage } = page;
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+    const image = backgroundImage && tiles.getImage(backgroundImage);
+    if (!image) return;
+    const { width: iw, height: ih } = image as {
+      width: number;
+      height: number;
+    };
+    // fits in the page, like `Raster.fitBounds`.
+    const scale = Math.min(width / iw, height / ih);
+    const [w, h] = [iw * scale, ih * scale];
+    ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+  };
+
+  const draw = () => {
+    scheduled = false;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const { matrix, pixelRatio } = view;
+    const width = Math.round(view.width * pixelRatio);
+    const height = Math.round(view.height * pixelRatio);
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const [a, b, c, d, tx, ty] = matrix;
+    const det = a * d - b * c;
+    if (!det) return;
+    ctx.save();
+    ctx.scale(pixelRatio, pixelRatio);
+    ctx.transform(...matrix);
+    if (!page.infinite) drawBackground(ctx);
+
+    // the visible area, in project coordinates.
+    const corners = [
+      [0, 0],
+      [view.width, 0],
+      [0, view.height],
+      [view.width, view.height],
+    ].map(([x = 0, y = 0]) => [
+      (d * (x - tx) - c * (y - ty)) / det,
+      (a * (y - ty) - b * (x - tx)) / det,
+    ]);
+    const xs = corners.map(([x = 0]) => x);
+    const ys = corners.map(([, y = 0]) => y);
+    const area = {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
+    };
+    const level = tiles.getLevel(Math.sqrt(Math.abs(det)) * pixelRatio);
+    const visible = tiles.getTiles(area, level, TILE_BUDGET);
+    visible.tiles.forEach(({ canvas, bounds }) =>
+      ctx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height)
+    );
+    ctx.restore();
+    if (visible.pending) schedule();
+  };
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    nextFrame(draw);
+  };
+
+  const handle = (message: RenderMessage) => {
+    switch (message.type) {
+      case "init":
+        canvas = message.canvas;
+        break;
+      case "view": {
+        const { matrix, width, height, pixelRatio } = message;
+        view = { matrix, width, height, pixelRatio };
+        break;
+      }
+      case "page": {
+        const { width, height, infinite, backgroundImage = "" } = message;
+        page = { width, height, infinite, backgroundImage };
+        break;
+      }
+      case "patch":
+        tiles.applyPatch(message.removed, message.upserted);
+        break;
+      case "layers":
+        tiles.setLayers(message.layers);
+        break;
+      case "preview":
+        tiles.setPreview(message.strokes);
+        break;
+      case "clearPreview":
+        tiles.clearPreview();
+        break;
+    }
+    schedule();
+  };
+
+  return { handle };
+};
+
+// the entry of a render worker: `exposeRenderer(self)`.
+export const exposeRenderer = (
+  scope: { onmessage: ((e: MessageEvent<RenderMessage>) => void) | null },
+  options?: RendererOptions
+) => {
+  const { handle } = createStrokeRenderer(options);
+  scope.onmessage = (e) => handle(e.data);
+};
+
+// a port that hands the messages to `handle` on the main thread instead of
+// a worker, asynchronously as a worker would. Tests can pass their own
+// handler to see what crosses the worker boundary.
+export const createLocalRenderPort = (
+  handle: (message: RenderMessage) => void = createStrokeRenderer().handle
+): RenderPort => {
+  let terminated = false;
+  return {
+    postMessage(message) {
+      Promise.resolve().then(() => terminated || handle(message));
+    },
+    terminate() {
+      terminated = true;
+    },
+  };
+};
@@ -0,0 +1,331 @@
+// DOM-free reader for the paper.js `exportJSON` output stored in strokes.
+
+export type Vec = [number, number];
+export type Matrix = [number, number, number, number, number, number];
+export type RGBA = [number, number, number, number];
+
+export interface SegmentData {
+  point: Vec;
+  handleIn: Vec;
+  handleOut: Vec;
+}
+
+export interface SubPath {
+  segments: SegmentData[];
+  closed: boolean;
+}
+
+export interface ItemStyle {
+  fillColor?: RGBA;
+  fillRule: "nonzero" | "evenodd";
+  strokeColor?: RGBA;
+  strokeWidth: number;
+  strokeCap: "butt" | "round" | "square";
+  strokeJoin: "miter" | "round" | "bevel";
+  miterLimit: number;
+  dashArray: number[];
+  dashOffset: number;
+  opacity: number;
+  blendMode: string;
+}
+
+interface ItemBase {
+  matrix: Matrix;
+  style: ItemStyle;
+  visible: boolean;
+}
+
+export type ParsedItem =
+  | (ItemBase & { type: "path"; subPaths: SubPath[] })
+  | (ItemBase & {
+      type: "text";
+      content: string;
+      fontFamily: string;
+      fontWeight: string;
+      fontSize: number;
+      leading: number;
+      justification: "left" | "center" | "right";
+    })
+  | (ItemBase & { type: "raster"; source: string })
+  | (ItemBase & { type: "group"; children: ParsedItem[] });
+
+type Props = { [key: string]: unknown };
+
+export const IDENTITY: Readonly<Matrix> = [1, 0, 0, 1, 0, 0];
+
+export const isIdentity = (m: Readonly<Matrix>) =>
+  m.every((v, i) => v === IDENTITY[i]);
+
+export const multiplyMatrix = (m0: Readonly<Matrix>, m1: Readonly<Matrix>) => {
+  const [a0, b0, c0, d0, tx0, ty0] = m0;
+  const [a1, b1, c1, d1, tx1, ty1] = m1;
+  return [
+    a0 * a1 + c0 * b1,
+    b0 * a1 + d0 * b1,
+    a0 * c1 + c0 * d1,
+    b0 * c1 + d0 * d1,
+    a0 * tx1 + c0 * ty1 + tx0,
+    b0 * tx1 + d0 * ty1 + ty0,
+  ] as Matrix;
+};
+
+export const transformPoint = (
+  [a, b, c, d, tx, ty]: Readonly<Matrix>,
+  [x, y]: Vec
+): Vec => [a * x + c * y + tx, b * x + d * y + ty];
+
+const isNum = (v: unknown): v is number => typeof v === "number" && isFinite(v);
+
+const readVec = (v: unknown): Vec =>
+  Array.isArray(v) && isNum(v[0]) && isNum(v[1]) ? [v[0], v[1]] : [0, 0];
+
+const readMatrix = (v: unknown): Matrix =>
+  Array.isArray(v) && v.length === 6 && v.every(isNum)
+    ? (v.slice() as Matrix)
+    : (IDENTITY.slice() as Matrix);
+
+const hsbToRgb = (h: number, s: number, b: number) => {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return b - b * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return [f(5), f(3), f(1)];
+};
+
+const hslToRgb = (h: number, s: number, l: number) => {
+  const b = l + s * Math.min(l, 1 - l);
+  return hsbToRgb(h, b === 0 ? 0 : 2 * (1 - l / b), b);
+};
+
+// paper serializes gray/rgb as bare components, other types with a prefix.
+export const readColor = (v: unknown): RGBA | undefined => {
+  if (!Array.isArray(v)) return;
+  let [type, ...rest] = v;
+  if (typeof type !== "string") {
+    rest = v;
+    type = v.length <= 2 ? "gray" : "rgb";
+  }
+  const c = rest.filter(isNum);
+  const [c0 = 0, c1 = 0, c2 = 0] = c;
+  let rgb: number[];
+  let alpha: number | undefined;
+  if (type === "gray") {
+    rgb = [c0, c0, c0];
+    alpha = c[1];
+  } else if (type === "rgb") {
+    rgb = [c0, c1, c2];
+    alpha = c[3];
+  } else if (type === "hsb") {
+    rgb = hsbToRgb(c0, c1, c2);
+    alpha = c[3];
+  } else if (type === "hsl") {
+    rgb = hslToRgb(c0, c1, c2);
+    alpha = c[3];
+  } else {
+    return;
+  }
+  const [r = 0, g = 0, b = 0] = rgb;
+  return [r, g, b, alpha ?? 1];
+};
+
+const pick = <T extends string>(v: unknown, options: T[], fallback: T): T =>
+  options.includes(v as T) ? (v as T) : fallback;
+
+const readStyle = (props: Props, parent?: ItemStyle): ItemStyle => {
+  const inherit = <K extends keyof ItemStyle>(key: K, fallback: ItemStyle[K]) =>
+    parent ? parent[key] : fallback;
+  const dashArray = props.dashArray;
+  return {
+    fillColor:
+      "fillColor" in props
+        ? readColor(props.fillColor)
+        : inherit("fillColor", undefined),
+    fillRule: pick(
+      props.fillRule,
+      ["nonzero", "evenodd"],
+      inherit("fillRule", "nonzero")
+    ),
+    strokeColor:
+      "strokeColor" in props
+        ? readColor(props.strokeColor)
+        : inherit("strokeColor", undefined),
+    strokeWidth: isNum(props.strokeWidth)
+      ? props.strokeWidth
+      : inherit("strokeWidth", 1),
+    strokeCap: pick(
+      props.strokeCap,
+      ["butt", "round", "square"],
+      inherit("strokeCap", "butt")
+    ),
+    strokeJoin: pick(
+      props.strokeJoin,
+      ["miter", "round", "bevel"],
+      inherit("strokeJoin", "miter")
+    ),
+    miterLimit: isNum(props.miterLimit)
+      ? props.miterLimit
+      : inherit("miterLimit", 10),
+    dashArray: Array.isArray(dashArray)
+      ? dashArray.filter(isNum)
+      : inherit("dashArray", []),
+    dashOffset: isNum(props.dashOffset)
+      ? props.dashOffset
+      : inherit("dashOffset", 0),
+    opacity: isNum(props.opacity) ? props.opacity : 1,
+    blendMode: typeof props.blendMode === "string" ? props.blendMode : "normal",
+  };
+};
+
+const readSegment = (v: unknown): SegmentData => {
+  // a segment without handles is serialized as a bare point.
+  if (Array.isArray(v) && Array.isArray(v[0])) {
+    return {
+      point: readVec(v[0]),
+      handleIn: readVec(v[1]),
+      handleOut: readVec(v[2]),
+    };
+  }
+  return { point: readVec(v), handleIn: [0, 0], handleOut: [0, 0] };
+};
+
+const readSubPath = (props: Props): SubPath => ({
+  segments: Array.isArray(props.segments)
+    ? props.segments.map(readSegment)
+    : [],
+  closed: props.closed === true,
+});
+
+const parseNode = (
+  node: unknown,
+  parent?: ItemStyle
+): ParsedItem | undefined => {
+  if (!Array.isArray(node) || typeof node[0] !== "string") return;
+  const [className, rawProps] = node;
+  const props: Props =
+    rawProps && typeof rawProps === "object" ? (rawProps as Props) : {};
+  const base: ItemBase = {
+    matrix: readMatrix(props.matrix),
+    style: readStyle(props, parent),
+    visible: props.visible !== false,
+  };
+  const children = Array.isArray(props.children) ? props.children : [];
+
+  switch (className) {
+    case "Path":
+      return { ...base, type: "path", subPaths: [readSubPath(props)] };
+    case "CompoundPath": {
+      // children of a compound path share the style of their parent.
+      const subPaths: SubPath[] = [];
+      children.forEach((child) => {
+        if (!Array.isArray(child) || child[0] !== "Path") return;
+        const childProps = (child[1] ?? {}) as Props;
+        const m = readMatrix(childProps.matrix);
+        const sub = readSubPath(childProps);
+        if (!isIdentity(m)) {
+          sub.segments = sub.segments.map(({ point, handleIn, handleOut }) => {
+            const p = transformPoint(m, point);
+            const tIn = transformPoint(m, [
+              point[0] + handleIn[0],
+              point[1] + handleIn[1],
+            ]);
+            const tOut = transformPoint(m, [
+              point[0] + handleOut[0],
+              point[1] + handleOut[1],
+            ]);
+            return {
+              point: p,
+              handleIn: [tIn[0] - p[0], tIn[1] - p[1]],
+              handleOut: [tOut[0] - p[0], tOut[1] - p[1]],
+            };
+          });
+        }
+        subPaths.push(sub);
+      });
+      return { ...base, type: "path", subPaths };
+    }
+    case "PointText": {
+      const fontSize = isNum(props.fontSize) ? props.fontSize : 12;
+      return {
+        ...base,
+        type: "text",
+        content: typeof props.content === "string" ? props.content : "",
+        fontFamily:
+          typeof props.fontFamily === "string"
+            ? props.fontFamily
+            : "sans-serif",
+        fontWeight:
+          typeof props.fontWeight === "string" ? props.fontWeight : "normal",
+        fontSize,
+        leading: isNum(props.leading) ? props.leading : fontSize * 1.2,
+        justification: pick(
+          props.justification,
+          ["left", "center", "right"],
+          "left"
+        ),
+        // text is filled black unless told otherwise.
+        style: {
+          ...base.style,
+          fillColor: "fillColor" in props ? base.style.fillColor : [0, 0, 0, 1],
+        },
+      };
+    }
+    case "Raster":
+      if (typeof props.source !== "string") return;
+      return { ...base, type: "raster", source: props.source };
+    case "Group":
+    case "Layer": {
+      const parsed = children
+        .map((child) => parseNode(child))
+        .filter((c): c is ParsedItem => !!c);
+      return { ...base, type: "group", children: parsed };
+    }
+    default:
+      return;
+  }
+};
+
+export const parsePathData = (pathData: string): ParsedItem | undefined => {
+  let json: unknown;
+  try {
+    json = JSON.parse(pathData);
+  } catch (e) {
+    return;
+  }
+  // symbol definitions come first when a dictionary was used.
+  if (Array.isArray(json) && Array.isArray(json[0])) {
+    json = json[json.length - 1];
+  }
+  return parseNode(json);
+};
+
+export interface PathSink {
+  moveTo: (x: number, y: number) => void;
+  lineTo: (x: number, y: number) => void;
+  curveTo: (
+    ...coords: [number, number, number, number, number, number]
+  ) => void;
+  close: () => void;
+}
+
+// walk a sub path as absolute move/line/curve commands.
+export const tracePath = ({ segments, closed }: SubPath, sink: PathSink) => {
+  const [first] = segments;
+  if (!first) return;
+  sink.moveTo(...first.point);
+  const curve = (s0?: SegmentData, s1?: SegmentData) => {
+    if (!s0 || !s1) return;
+    const [x0, y0] = s0.point;
+    const [x1, y1] = s1.point;
+    const [ox, oy] = s0.handleOut;
+    const [ix, iy] = s1.handleIn;
+    if (!ox && !oy && !ix && !iy) return sink.lineTo(x1, y1);
+    sink.curveTo(x0 + ox, y0 + oy, x1 + ix, y1 + iy, x1, y1);
+  };
+  for (let i = 1; i < segments.length; i += 1) {
+    curve(segments[i - 1], segments[i]);
+  }
+  if (closed) {
+    curve(segments[segments.length - 1], first);
+    sink.close();
+  }
+};
@@ -0,0 +1,422 @@
+import { zlibSync, unzlibSync } from "fflate";
+import { DrawState, getStrokeLayer } from "./DrawState";
+import {
+  RGBA,
+  ItemStyle,
+  ParsedItem,
+  isIdentity,
+  tracePath,
+  parsePathData,
+} from "./pathData";
+import { decodePNG, getImageInfo, getJPEGComponents } from "./image";
+
+export interface PDFPage {
+  drawState: DrawState;
+  otherStates?: DrawState[];
+  // usually the pdf page image passed to `<Draw imgSrc>`, as a data url.
+  backgroundImage?: string;
+}
+
+export interface PDFExportOptions {
+  // page width in pt, defaults to the width of each DrawState.
+  pageWidth?: number;
+  // page color, `null` for none.
+  background?: string | null;
+  title?: string;
+  compress?: boolean;
+}
+
+type Chunk = string | Uint8Array;
+
+const num = (n: number) => String(Math.round(n * 1000) / 1000);
+
+const toBytes = (str: string) => {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i += 1) bytes[i] = str.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+// literal string in WinAnsiEncoding, non-ascii bytes escaped.
+const pdfString = (text: string) => {
+  let out = "";
+  for (let i = 0; i < text.length; i += 1) {
+    const code = text.charCodeAt(i);
+    const byte = code < 256 ? code : 63; // "?"
+    if (byte === 40 || byte === 41 || byte === 92) {
+      out += "\\" + text[i];
+    } else if (byte < 32 || byte > 126) {
+      out += "\\" + ("00" + byte.toString(8)).slice(-3);
+    } else {
+      out += String.fromCharCode(byte);
+    }
+  }
+  return `(${out})`;
+};
+
+const parseHexColor = (css: string): RGBA | undefined => {
+  let hex = css.replace(/^#/, "");
+  if (/^[\da-f]{3,4}$/i.test(hex)) hex = hex.replace(/./g, "$&$&");
+  if (!/^[\da-f]{6}([\da-f]{2})?$/i.test(hex)) return;
+  const [r = 0, g = 0, b = 0, a = 255] = (hex.match(/../g) ?? []).map((h) =>
+    parseInt(h, 16)
+  );
+  return [r / 255, g / 255, b / 255, a / 255];
+};
+
+const blendModeName = (mode: string) => {
+  const supported =
+    /^(multiply|screen|overlay|darken|lighten|color-dodge|color-burn|hard-light|soft-light|difference|exclusion|hue|saturation|color|luminosity)$/;
+  if (!supported.test(mode)) return "Normal";
+  return mode
+    .split("-")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join("");
+};
+
+const baseFontName = (family: string, weight: string) => {
+  const bold = /bold|[6-9]00/.test(weight);
+  const italic = /italic|oblique/.test(weight);
+  const mono = /mono|courier/i.test(family);
+  if (!mono && /serif/i.test(family) && !/sans/i.test(family)) {
+    const style = (bold ? "Bold" : "") + (italic ? "Italic" : "");
+    return `Times-${style || "Roman"}`;
+  }
+  const base = mono ? "Courier" : "Helvetica";
+  const style = (bold ? "Bold" : "") + (italic ? "Oblique" : "");
+  return style ? `${base}-${style}` : base;
+};
+
+class PDFWriter {
+  private objects: Chunk[][] = [];
+  private extGStates = new Map<string, string>();
+  private images = new Map<
+    string,
+    { name: string; width: number; height: number } | null
+  >();
+  private fonts = new Map<string, string>();
+  readonly resourcesID = this.alloc();
+
+  constructor(private compress: boolean) {}
+
+  alloc() {
+    this.objects.push([]);
+    return this.objects.length;
+  }
+
+  set(id: number, ...chunks: Chunk[]) {
+    this.objects[id - 1] = chunks;
+  }
+
+  add(...chunks: Chunk[]) {
+    const id = this.alloc();
+    this.set(id, ...chunks);
+    return id;
+  }
+
+  addStream(dict: string, data: Chunk, filter?: string) {
+    let bytes = typeof data === "string" ? toBytes(data) : data;
+    if (!filter && this.compress) {
+      bytes = zlibSync(bytes);
+      filter = "/FlateDecode";
+    }
+    const filterEntry = filter ? ` /Filter ${filter}` : "";
+    return this.add(
+      `<< ${dict}${filterEntry} /Length ${bytes.length} >>\nstream\n`,
+      bytes,
+      "\nendstream"
+    );
+  }
+
+  getExtGState(strokeAlpha: number, fillAlpha: number, blendMode: string) {
+    const key = `${num(strokeAlpha)} ${num(fillAlpha)} ${blendMode}`;
+    let name = this.extGStates.get(key);
+    if (!name) {
+      name = `GS${this.extGStates.size}`;
+      this.extGStates.set(key, name);
+    }
+    return name;
+  }
+
+  getFont(baseFont: string) {
+    let name = this.fonts.get(baseFont);
+    if (!name) {
+      name = `F${this.fonts.size}`;
+      this.fonts.set(baseFont, name);
+    }
+    return name;
+  }
+
+  getImage(source: string) {
+    if (this.images.has(source)) return this.images.get(source) ?? undefined;
+    const image = this.embedImage(source);
+    this.images.set(source, image ?? null);
+    return image;
+  }
+
+  private imageIDs = new Map<string, number>();
+  private embedImage(source: string) {
+    const info = getImageInfo(source);
+    if (!info) return;
+    const { width, height, bytes, mime } = info;
+    const size = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8`;
+    let id: number;
+    if (mime === "image/jpeg") {
+      const colorSpace = ["", "/DeviceGray", "", "/DeviceRGB", "/DeviceCMYK"][
+        getJPEGComponents(bytes)
+      ];
+      if (!colorSpace) return;
+      id = this.addStream(
+        `${size} /ColorSpace ${colorSpace}`,
+        bytes,
+        "/DCTDecode"
+      );
+    } else if (mime === "image/png") {
+      const png = decodePNG(bytes, unzlibSync);
+      if (!png) return;
+      const colorSpace = png.colors === 1 ? "/DeviceGray" : "/DeviceRGB";
+      let smask = "";
+      if (png.alpha) {
+        const maskID = this.addStream(
+          `${size} /ColorSpace /DeviceGray`,
+          zlibSync(png.alpha),
+          "/FlateDecode"
+        );
+        smask = ` /SMask ${maskID} 0 R`;
+      }
+      id = this.addStream(
+        `${size} /ColorSpace ${colorSpace}${smask}`,
+        zlibSync(png.pixels),
+        "/FlateDecode"
+      );
+    } else {
+      return;
+    }
+    const name = `Im${this.imageIDs.size}`;
+    this.imageIDs.set(name, id);
+    return { name, width, height };
+  }
+
+  writeResources() {
+    const gs = Array.from(this.extGStates).map(([key, name]) => {
+      const [CA, ca, BM] = key.split(" ");
+      return `/${name} << /Type /ExtGState /CA ${CA} /ca ${ca} /BM /${BM} >>`;
+    });
+    const fonts = Array.from(this.fonts).map(
+      ([baseFont, name]) =>
+        `/${name} << /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+    );
+    const images = Array.from(this.imageIDs).map(
+      ([name, id]) => `/${name} ${id} 0 R`
+    );
+    this.set(
+      this.resourcesID,
+      `<< /ProcSet [/PDF /Text /ImageB /ImageC]`,
+      `\n/ExtGState << ${gs.join("\n")} >>`,
+      `\n/Font << ${fonts.join("\n")} >>`,
+      `\n/XObject << ${images.join(" ")} >> >>`
+    );
+  }
+
+  output(rootID: number, infoID: number) {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const push = (chunk: Chunk) => {
+      const bytes = typeof chunk === "string" ? toBytes(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    push("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+    const offsets = this.objects.map((obj, index) => {
+      const offset = length;
+      push(`${index + 1} 0 obj\n`);
+      obj.forEach(push);
+      push("\nendobj\n");
+      return offset;
+    });
+    const xrefOffset = length;
+    const size = this.objects.length + 1;
+    push(`xref\n0 ${size}\n0000000000 65535 f \n`);
+    offsets.forEach((o) => push(`${("000000000" + o).slice(-10)} 00000 n \n`));
+    push(
+      `trailer\n<< /Size ${size} /Root ${rootID} 0 R /Info ${infoID} 0 R >>\n`
+    );
+    push(`startxref\n${xrefOffset}\n%%EOF\n`);
+
+    const out = new Uint8Array(length);
+    chunks.reduce((offset, c) => (out.set(c, offset), offset + c.length), 0);
+    return out;
+  }
+}
+
+// `opacity` is that of the layer and of the groups around the item; the
+// alpha of the graphics state is set, not multiplied, so it is passed down.
+const paintItem = (
+  writer: PDFWriter,
+  item: ParsedItem,
+  ops: string[],
+  opacity = 1
+) => {
+  if (!item.visible) return;
+  const { style, matrix } = item;
+  ops.push("q");
+  if (!isIdentity(matrix)) ops.push(`${matrix.map(num).join(" ")} cm`);
+  const setAlpha = (s: ItemStyle) => {
+    const strokeAlpha = (s.strokeColor?.[3] ?? 1) * s.opacity * opacity;
+    const fillAlpha = (s.fillColor?.[3] ?? 1) * s.opacity * opacity;
+    const bm = blendModeName(s.blendMode);
+    if (strokeAlpha === 1 && fillAlpha === 1 && bm === "Normal") return;
+    ops.push(`/${writer.getExtGState(strokeAlpha, fillAlpha, bm)} gs`);
+  };
+  const rgb = (c: RGBA) => c.slice(0, 3).map(num).join(" ");
+
+  switch (item.type) {
+    case "path": {
+      const { fillColor, strokeColor } = style;
+      if (!fillColor && !strokeColor) break;
+      setAlpha(style);
+      const op = (o: string, coords: number[]) =>
+        ops.push(`${coords.map(num).join(" ")} ${o}`);
+      item.subPaths.forEach((subPath) =>
+        tracePath(subPath, {
+          moveTo: (...p) => op("m", p),
+          lineTo: (...p) => op("l", p),
+          curveTo: (...p) => op("c", p),
+          close: () => ops.push("h"),
+        })
+      );
+      if (fillColor) ops.push(`${rgb(fillColor)} rg`);
+      if (strokeColor) {
+        const cap = { butt: 0, round: 1, square: 2 }[style.strokeCap];
+        const join = { miter: 0, round: 1, bevel: 2 }[style.strokeJoin];
+        ops.push(`${rgb(strokeColor)} RG`, `${num(style.strokeWidth)} w`);
+        ops.push(`${cap} J ${join} j ${num(style.miterLimit)} M`);
+        if (style.dashArray.length) {
+          const dashes = style.dashArray.map(num).join(" ");
+          ops.push(`[${dashes}] ${num(style.dashOffset)} d`);
+        }
+      }
+      const evenOdd = style.fillRule === "evenodd" ? "*" : "";
+      ops.push(
+        fillColor && strokeColor
+          ? `B${evenOdd}`
+          : fillColor
+          ? `f${evenOdd}`
+          : "S"
+      );
+      break;
+    }
+    case "text": {
+      if (!item.content || !style.fillColor) break;
+      setAlpha(style);
+      const font = writer.getFont(
+        baseFontName(item.fontFamily, item.fontWeight)
+      );
+      ops.push(`${rgb(style.fillColor)} rg`);
+      item.content.split(/\r\n|[\n\r]/).forEach((line, i) => {
+        // standard fonts carry no metrics here, estimate half an em per glyph.
+        const width = line.length * item.fontSize * 0.5;
+        const dx = { left: 0, center: -width / 2, right: -width }[
+          item.justification
+        ];
+        const y = num(i * item.leading);
+        // flip the text matrix back, the page is drawn y-down.
+        ops.push(
+          `BT /${font} ${num(item.fontSize)} Tf 1 0 0 -1 ${num(
+            dx
+          )} ${y} Tm ${pdfString(line)} Tj ET`
+        );
+      });
+      break;
+    }
+    case "raster": {
+      const image = writer.getImage(item.source);
+      if (!image) break;
+      setAlpha(style);
+      const { name, width: w, height: h } = image;
+      // a raster is centered on its own origin.
+      ops.push(`${w} 0 0 ${-h} ${num(-w / 2)} ${num(h / 2)} cm /${name} Do`);
+      break;
+    }
+    case "group":
+      setAlpha(style);
+      item.children.forEach((child) =>
+        paintItem(writer, child, ops, opacity * style.opacity)
+      );
+      break;
+  }
+  ops.push("Q");
+};
+
+const paintBackgroundImage = (
+  writer: PDFWriter,
+  source: string,
+  width: number,
+  height: number,
+  ops: string[]
+) => {
+  const image = writer.getImage(source);
+  if (!image) return;
+  // same as `raster.fitBounds` on the page rectangle.
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  const x = (width - w) / 2;
+  const y = (height - h) / 2;
+  ops.push(
+    `q ${num(w)} 0 0 ${num(-h)} ${num(x)} ${num(y + h)} cm /${image.name} Do Q`
+  );
+};
+
+export const exportPDF = (pages: PDFPage[], options: PDFExportOptions = {}) => {
+  const { pageWidth, background = "#fff", title, compress = true } = options;
+  const writer = new PDFWriter(compress);
+  const pagesID = writer.alloc();
+  const bgColor = background ? parseHexColor(background) : undefined;
+
+  const pageIDs = pages.map(
+    ({ drawState, otherStates = [], backgroundImage }) => {
+      const { width, height } = drawState;
+      const scale = pageWidth ? pageWidth / width : 1;
+      const ops: string[] = [];
+      // draw in page units with the y axis pointing down, like paper.
+      ops.push(`${num(scale)} 0 0 ${num(-scale)} 0 ${num(height * scale)} cm`);
+      ops.push(`0 0 ${num(width)} ${num(height)} re W n`);
+      if (bgColor) {
+        ops.push(`${bgColor.slice(0, 3).map(num).join(" ")} rg`);
+        ops.push(`0 0 ${num(width)} ${num(height)} re f`);
+      }
+      if (backgroundImage) {
+        paintBackgroundImage(writer, backgroundImage, width, height, ops);
+      }
+      const layers = DrawState.mergeLayers(drawState, ...otherStates);
+      const opacity = new Map(layers.map((l) => [l.uid, l.opacity]));
+      // per stroke, where paper fades the layer as a whole.
+      DrawState.arrangeStrokes(
+        DrawState.mergeStates(drawState, ...otherStates),
+        layers
+      ).forEach((stroke) => {
+        const item = parsePathData(stroke.pathData);
+        const layerOpacity = opacity.get(getStrokeLayer(stroke)) ?? 1;
+        if (item) paintItem(writer, item, ops, layerOpacity);
+      });
+
+      const contentID = writer.addStream("", ops.join("\n"));
+      const mediaBox = [0, 0, width * scale, height * scale].map(num).join(" ");
+      return writer.add(
+        `<< /Type /Page /Parent ${pagesID} 0 R /MediaBox [${mediaBox}]`,
+        ` /Resources ${writer.resourcesID} 0 R /Contents ${contentID} 0 R >>`
+      );
+    }
+  );
+
+  const kids = pageIDs.map((id) => `${id} 0 R`).join(" ");
+  writer.set(
+    pagesID,
+    `<< /Type /Pages /Kids [${kids}] /Count ${pageIDs.length} >>`
+  );
+  writer.writeResources();
+  const rootID = writer.add(`<< /Type /Catalog /Pages ${pagesID} 0 R >>`);
+  const titleEntry = title ? ` /Title ${pdfString(title)}` : "";
+  const infoID = writer.add(`<< /Producer (draft-pad)${titleEntry} >>`);
+  return writer.output(rootID, infoID);
+};
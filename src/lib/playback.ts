@@ -0,0 +1,242 @@
+import { DrawState, StrokeData } from "./DrawState";
+
+export interface PlaybackOptions {
+  // playback rate, 1 is real time.
+  speed?: number;
+  // idle periods longer than this are shortened to it, in ms.
+  maxGap?: number;
+  // ms between two frames while playing.
+  interval?: number;
+}
+
+export interface PlaybackFrame {
+  drawState: DrawState;
+  otherStates: DrawState[];
+  // position on the playback timeline, in ms.
+  time: number;
+}
+
+// a record and the period it was part of the page.
+interface Span {
+  stroke: StrokeData;
+  from: number;
+  to: number;
+}
+
+// walks the history records of the local user. records that were erased or
+// replaced along the way get a span ending when that happened.
+const collectSpans = (drawState: DrawState): Span[] => {
+  const records = drawState
+    .getHistoryStack()
+    .push(drawState.getImmutable())
+    .map((record) => record.get("strokes"))
+    .toArray();
+  const [first] = records;
+  if (!first) return [];
+
+  // removals carry no timestamp, they are placed at the next timed step.
+  const stepTimes: (number | undefined)[] = [];
+  let lastTime = -Infinity;
+  records.forEach((curr, k) => {
+    const prev = records[k - 1];
+    if (!prev) return;
+    let time: number | undefined;
+    curr.forEach((stroke, uid) => {
+      if (prev.get(uid) === stroke) return;
+      time = Math.max(time ?? lastTime, stroke.timestamp, lastTime);
+    });
+    if (time !== undefined) lastTime = time;
+    stepTimes[k] = time;
+  });
+  let nextTime = lastTime;
+  for (let k = stepTimes.length - 1; k > 0; k -= 1) {
+    nextTime = stepTimes[k] ?? nextTime;
+    stepTimes[k] = nextTime;
+  }
+
+  const spans: Span[] = [];
+  const open = new Map<string, Span>();
+  first.forEach((stroke, uid) => {
+    open.set(uid, { stroke, from: stroke.timestamp, to: Infinity });
+  });
+  records.forEach((curr, k) => {
+    const prev = records[k - 1];
+    const time = stepTimes[k];
+    if (!prev || time === undefined) return;
+    prev.forEach((stroke, uid) => {
+      if (curr.get(uid) === stroke) return;
+      const span = open.get(uid);
+      if (!span) return;
+      spans.push({ ...span, to: time });
+      open.delete(uid);
+    });
+    curr.forEach((stroke, uid) => {
+      if (prev.get(uid) === stroke) return;
+      open.set(uid, { stroke, from: time, to: Infinity });
+    });
+  });
+  open.forEach((span) => spans.push(span));
+  return spans;
+};
+
+// drives a readonly `<Draw>` through the drawing history of a page, in time
+// order. teammates' strokes come from `otherStates`, which keep no history,
+// so only their current records are replayed.
+export class PlaybackController {
+  private layers: Span[][];
+  // times at which the page changes, and their position on the timeline.
+  private times: number[] = [];
+  private positions: number[] = [];
+  private time = 0;
+  private speed: number;
+  private maxGap: number;
+  private interval: number;
+  private playing = false;
+  private startedAt = 0;
+  private startTime = 0;
+  private timerID?: ReturnType<typeof setInterval>;
+  private frame?: PlaybackFrame;
+  private frameIndex = -1;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    private drawState: DrawState,
+    private otherStates: DrawState[] = [],
+    options: PlaybackOptions = {}
+  ) {
+    const { speed = 1, maxGap = 2000, interval = 1000 / 30 } = options;
+    this.speed = speed;
+    this.maxGap = maxGap;
+    this.interval = interval;
+    this.layers = [
+      collectSpans(drawState),
+      ...otherStates.map((ds) =>
+        ds
+          .getStrokeMap()
+          .valueSeq()
+          .map((stroke) => ({ stroke, from: stroke.timestamp, to: Infinity }))
+          .toArray()
+      ),
+    ];
+    this.buildTimeline();
+  }
+
+  getDuration = () => this.positions[this.positions.length - 1] ?? 0;
+
+  getTime = () => this.time;
+
+  getSpeed = () => this.speed;
+
+  isPlaying = () => this.playing;
+
+  getFrame = (): PlaybackFrame => {
+    const index = this.getIndex();
+    if (this.frame && index === this.frameIndex) {
+      if (this.frame.time !== this.time) {
+        this.frame = { ...this.frame, time: this.time };
+      }
+      return this.frame;
+    }
+    const cutoff = this.times[index] ?? -Infinity;
+    const [drawState, ...otherStates] = this.layers.map((spans, i) => {
+      const base = i ? this.otherStates[i - 1] : this.drawState;
+      const visible = spans
+        .filter(({ from, to }) => from <= cutoff && to > cutoff)
+        .map(({ stroke }) => stroke)
+        .sort((s0, s1) => s0.timestamp - s1.timestamp);
+      return DrawState.withStrokes(base ?? this.drawState, visible);
+    });
+    this.frameIndex = index;
+    this.frame = {
+      drawState: drawState ?? this.drawState,
+      otherStates,
+      time: this.time,
+    };
+    return this.frame;
+  };
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  };
+
+  play = () => {
+    if (this.playing) return;
+    if (this.time >= this.getDuration()) this.time = 0;
+    this.playing = true;
+    this.anchor();
+    this.timerID = setInterval(this.tick, this.interval);
+    this.notify();
+  };
+
+  pause = () => {
+    if (!this.playing) return;
+    this.playing = false;
+    clearInterval(this.timerID);
+    this.notify();
+  };
+
+  seek = (time: number) => {
+    this.time = Math.min(Math.max(time, 0), this.getDuration());
+    this.anchor();
+    this.notify();
+  };
+
+  setSpeed = (speed: number) => {
+    this.speed = speed;
+    this.anchor();
+    this.notify();
+  };
+
+  destroy() {
+    clearInterval(this.timerID);
+    this.listeners.clear();
+  }
+
+  private tick = () => {
+    const elapsed = (Date.now() - this.startedAt) * this.speed;
+    const duration = this.getDuration();
+    this.time = Math.min(this.startTime + elapsed, duration);
+    if (this.time >= duration) this.pause();
+    this.notify();
+  };
+
+  private anchor() {
+    this.startedAt = Date.now();
+    this.startTime = this.time;
+  }
+
+  private buildTimeline() {
+    const times = new Set<number>();
+    this.layers.forEach((spans) =>
+      spans.forEach(({ from, to }) => {
+        times.add(from);
+        if (to !== Infinity) times.add(to);
+      })
+    );
+    this.times = Array.from(times).sort((t0, t1) => t0 - t1);
+    let position = 0;
+    this.positions = this.times.map((time, i) => {
+      const prev = this.times[i - 1];
+      if (prev !== undefined) position += Math.min(time - prev, this.maxGap);
+      return position;
+    });
+  }
+
+  // index of the last change shown at the current time.
+  private getIndex() {
+    let lo = 0;
+    let hi = this.positions.length - 1;
+    if (hi < 0 || (this.positions[0] ?? 0) > this.time) return -1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if ((this.positions[mid] ?? 0) <= this.time) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
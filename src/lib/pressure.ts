@@ -0,0 +1,124 @@
+import type { Vec } from "./pathData";
+
+// a centreline point and its width factor, from 0 to 1.
+export type PressureSample = [number, number, number];
+
+// kept in `item.data.pressure`, in the item's own coordinates.
+export interface PressureData {
+  width: number;
+  samples: PressureSample[];
+}
+
+export interface PenInput {
+  // 0 to 1, undefined for devices without pressure.
+  pressure?: number;
+  // 0 when upright, 1 when flat.
+  tilt?: number;
+  // page units per ms.
+  speed?: number;
+}
+
+export interface PressureOptions {
+  tilt?: boolean;
+  velocity?: boolean;
+}
+
+// the thinnest part of a stroke, relative to its width.
+const MIN_RATIO = 0.15;
+const CAP_STEPS = 8;
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.min(Math.max(v, min), max);
+
+export const getWidthFactor = (
+  { pressure, tilt, speed }: PenInput,
+  { tilt: useTilt, velocity }: PressureOptions = {}
+) => {
+  let factor = pressure ?? 1;
+  // a tilted pencil leaves a broader mark.
+  if (useTilt && tilt !== undefined) factor *= 1 + tilt;
+  // fast strokes get thinner, like ink running dry.
+  if (velocity && speed !== undefined) factor /= 1 + speed / 2;
+  return clamp(factor, 0, 1);
+};
+
+// averages each factor with its neighbours to hide sensor jitter.
+const smoothFactors = (samples: PressureSample[]) =>
+  samples.map(([x, y, f], i) => {
+    const prev = samples[i - 1]?.[2] ?? f;
+    const next = samples[i + 1]?.[2] ?? f;
+    return [x, y, (prev + 2 * f + next) / 4] as PressureSample;
+  });
+
+const arc = (
+  [cx, cy]: Vec,
+  r: number,
+  from: number,
+  sweep: number,
+  out: Vec[]
+) => {
+  for (let i = 1; i < CAP_STEPS; i += 1) {
+    const angle = from + (sweep * i) / CAP_STEPS;
+    out.push([cx + r * Math.cos(angle), cy + r * Math.sin(angle)]);
+  }
+};
+
+// the closed outline of a variable-width stroke with round ends, as a
+// polygon to be smoothed by the caller.
+export const getPressureOutline = ({ width, samples }: PressureData): Vec[] => {
+  const points: PressureSample[] = [];
+  samples.forEach((sample) => {
+    const last = points[points.length - 1];
+    if (last && Math.hypot(sample[0] - last[0], sample[1] - last[1]) < 0.5) {
+      return;
+    }
+    points.push(sample);
+  });
+  const smoothed = smoothFactors(points);
+  const radius = (f: number) => (width * (MIN_RATIO + (1 - MIN_RATIO) * f)) / 2;
+
+  const [first] = smoothed;
+  if (!first) return [];
+  if (smoothed.length === 1) {
+    const dot: Vec[] = [];
+    arc([first[0], first[1]], radius(first[2]), 0, 2 * Math.PI, dot);
+    return dot;
+  }
+
+  const left: Vec[] = [];
+  const right: Vec[] = [];
+  const angles: number[] = [];
+  smoothed.forEach(([x, y, f], i) => {
+    const [px, py] = smoothed[i - 1] ?? smoothed[i] ?? first;
+    const [nx, ny] = smoothed[i + 1] ?? smoothed[i] ?? first;
+    const angle = Math.atan2(ny - py, nx - px);
+    const r = radius(f);
+    const dx = -Math.sin(angle) * r;
+    const dy = Math.cos(angle) * r;
+    angles.push(angle);
+    left.push([x + dx, y + dy]);
+    right.push([x - dx, y - dy]);
+  });
+
+  const last = smoothed[smoothed.length - 1] ?? first;
+  const outline: Vec[] = left.slice();
+  // end cap from the left side around the tip to the right side.
+  const endAngle = angles[angles.length - 1] ?? 0;
+  arc(
+    [last[0], last[1]],
+    radius(last[2]),
+    endAngle + Math.PI / 2,
+    -Math.PI,
+    outline
+  );
+  outline.push(...right.reverse());
+  const startAngle = angles[0] ?? 0;
+  arc(
+    [first[0], first[1]],
+    radius(first[2]),
+    startAngle - Math.PI / 2,
+    -Math.PI,
+    outline
+  );
+  return outline;
+};
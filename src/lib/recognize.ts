@@ -0,0 +1,229 @@
+import type { Vec } from "./pathData";
+import { getArrowHead } from "./shapes";
+
+export type RecognizedShape =
+  | {
+      type: "line" | "arrow" | "triangle" | "rectangle" | "polygon";
+      points: Vec[];
+      closed: boolean;
+    }
+  | {
+      type: "ellipse";
+      center: Vec;
+      radius: Vec;
+      // degrees.
+      rotation: number;
+    };
+
+// how far, relative to the size of the stroke, points may stray from a shape.
+const TOLERANCE = 0.12;
+// angles within this many degrees snap to the axes or to right angles.
+const SNAP_ANGLE = 10;
+
+const sub = ([x0, y0]: Vec, [x1, y1]: Vec): Vec => [x0 - x1, y0 - y1];
+const len = ([x, y]: Vec) => Math.hypot(x, y);
+const dist = (p0: Vec, p1: Vec) => len(sub(p0, p1));
+const toDegree = (rad: number) => (rad * 180) / Math.PI;
+
+const getLength = (points: Vec[], closed = false) =>
+  points.reduce((sum, p, i) => {
+    const next = points[i + 1] ?? (closed ? points[0] : undefined);
+    return next ? sum + dist(p, next) : sum;
+  }, 0);
+
+const distToSegment = (p: Vec, a: Vec, b: Vec) => {
+  const ab = sub(b, a);
+  const l2 = ab[0] ** 2 + ab[1] ** 2;
+  if (!l2) return dist(p, a);
+  const ap = sub(p, a);
+  const t = Math.min(Math.max((ap[0] * ab[0] + ap[1] * ab[1]) / l2, 0), 1);
+  return dist(p, [a[0] + ab[0] * t, a[1] + ab[1] * t]);
+};
+
+const distToPolygon = (p: Vec, polygon: Vec[], closed: boolean) => {
+  let min = Infinity;
+  polygon.forEach((a, i) => {
+    const b = polygon[i + 1] ?? (closed ? polygon[0] : undefined);
+    if (b) min = Math.min(min, distToSegment(p, a, b));
+  });
+  return min;
+};
+
+// Ramer–Douglas–Peucker, keeping the corners of the stroke.
+const getCorners = (points: Vec[], epsilon: number): Vec[] => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last || points.length < 3) return points.slice();
+  let maxDist = 0;
+  let index = 0;
+  points.forEach((p, i) => {
+    const d = distToSegment(p, first, last);
+    if (d > maxDist) [maxDist, index] = [d, i];
+  });
+  if (maxDist <= epsilon) return [first, last];
+  const head = getCorners(points.slice(0, index + 1), epsilon);
+  return head.slice(0, -1).concat(getCorners(points.slice(index), epsilon));
+};
+
+const dropStraightCorners = (polygon: Vec[], epsilon: number) => {
+  const result = polygon.slice();
+  for (let i = 0; i < result.length && result.length > 3; ) {
+    const prev = result[(i + result.length - 1) % result.length];
+    const curr = result[i];
+    const next = result[(i + 1) % result.length];
+    if (prev && curr && next && distToSegment(curr, prev, next) < epsilon) {
+      result.splice(i, 1);
+    } else {
+      i += 1;
+    }
+  }
+  return result;
+};
+
+const snapAngle = (angle: number, step: number) => {
+  const snapped = Math.round(angle / step) * step;
+  return Math.abs(angle - snapped) < SNAP_ANGLE ? snapped : angle;
+};
+
+const fitEllipse = (points: Vec[]) => {
+  const n = points.length;
+  const cx = points.reduce((s, [x]) => s + x, 0) / n;
+  const cy = points.reduce((s, [, y]) => s + y, 0) / n;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  points.forEach(([x, y]) => {
+    sxx += (x - cx) ** 2;
+    syy += (y - cy) ** 2;
+    sxy += (x - cx) * (y - cy);
+  });
+  // the principal axis of the points.
+  const theta = snapAngle(toDegree(Math.atan2(2 * sxy, sxx - syy) / 2), 90);
+  const rad = (theta * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(rad), Math.sin(rad)];
+  const local = points.map(([x, y]): Vec => {
+    const [dx, dy] = [x - cx, y - cy];
+    return [dx * cos + dy * sin, -dx * sin + dy * cos];
+  });
+  const xs = local.map(([x]) => x);
+  const ys = local.map(([, y]) => y);
+  let a = (Math.max(...xs) - Math.min(...xs)) / 2;
+  let b = (Math.max(...ys) - Math.min(...ys)) / 2;
+  const ox = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const oy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  if (Math.abs(a - b) < 0.1 * Math.max(a, b)) a = b = (a + b) / 2;
+
+  const error =
+    local.reduce((sum, [x, y]) => {
+      const [dx, dy] = [x - ox, y - oy];
+      const r = Math.hypot(dx, dy);
+      const angle = Math.atan2(dy, dx);
+      const expected =
+        (a * b) / Math.hypot(b * Math.cos(angle), a * Math.sin(angle)) || 0;
+      return sum + Math.abs(r - expected);
+    }, 0) / n;
+  const center: Vec = [cx + ox * cos - oy * sin, cy + ox * sin + oy * cos];
+  const shape: RecognizedShape = {
+    type: "ellipse",
+    center,
+    radius: [a, b],
+    rotation: theta,
+  };
+  return { shape, error };
+};
+
+// straightens a quadrilateral with near right angles into a rectangle.
+const toRectangle = (corners: Vec[]): Vec[] | undefined => {
+  const edges = corners.map((p, i) => sub(corners[(i + 1) % 4] ?? p, p));
+  const square = edges.every((e, i) => {
+    const next = edges[(i + 1) % 4] ?? e;
+    const cos = (e[0] * next[0] + e[1] * next[1]) / (len(e) * len(next));
+    return Math.abs(toDegree(Math.acos(cos)) - 90) < 2 * SNAP_ANGLE;
+  });
+  if (!square) return;
+  const longest = edges.reduce((l, e) => (len(e) > len(l) ? e : l));
+  const angle = snapAngle(toDegree(Math.atan2(longest[1], longest[0])), 90);
+  const rad = (angle * Math.PI) / 180;
+  const u: Vec = [Math.cos(rad), Math.sin(rad)];
+  const v: Vec = [-u[1], u[0]];
+  const us = corners.map(([x, y]) => x * u[0] + y * u[1]);
+  const vs = corners.map(([x, y]) => x * v[0] + y * v[1]);
+  const [u0, u1] = [Math.min(...us), Math.max(...us)];
+  const [v0, v1] = [Math.min(...vs), Math.max(...vs)];
+  const at = (s: number, t: number): Vec => [
+    s * u[0] + t * v[0],
+    s * u[1] + t * v[1],
+  ];
+  return [at(u0, v0), at(u1, v0), at(u1, v1), at(u0, v1)];
+};
+
+const snapLine = (from: Vec, to: Vec): Vec => {
+  const d = sub(to, from);
+  const angle = toDegree(Math.atan2(d[1], d[0]));
+  const snapped = snapAngle(angle, 45);
+  if (snapped === angle) return to;
+  const rad = (snapped * Math.PI) / 180;
+  const l = len(d);
+  return [from[0] + l * Math.cos(rad), from[1] + l * Math.sin(rad)];
+};
+
+const recognizeOpen = (points: Vec[], length: number, corners: Vec[]) => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return;
+  if (dist(first, last) > 0.95 * length) {
+    const points: Vec[] = [first, snapLine(first, last)];
+    return { type: "line" as const, points, closed: false };
+  }
+  // a long shaft, then the head drawn around its tip.
+  const [tail, tip, ...head] = corners;
+  if (!tail || !tip || !head.length) return;
+  const shaft = dist(tail, tip);
+  if (shaft < 0.5 * length) return;
+  if (!head.every((p) => dist(p, tip) < 0.4 * shaft)) return;
+  const end = snapLine(tail, tip);
+  const [left, right] = getArrowHead(tail, end, Math.min(shaft / 3, 40));
+  if (!left || !right) return;
+  const arrow: Vec[] = [tail, end, left, end, right];
+  return { type: "arrow" as const, points: arrow, closed: false };
+};
+
+// returns a clean shape for a rough stroke, or undefined when it doesn't
+// look like any.
+export const recognizeShape = (points: Vec[]): RecognizedShape | undefined => {
+  if (points.length < 3) return;
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const size = Math.hypot(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys)
+  );
+  const length = getLength(points);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last || size < 10) return;
+
+  const corners = getCorners(points, size * 0.06);
+  const closed = dist(first, last) < Math.max(0.15 * length, size * 0.1);
+  if (!closed) return recognizeOpen(points, length, corners);
+
+  // the ends of a closed stroke meet, not necessarily at a corner.
+  const polygon = dropStraightCorners(corners.slice(0, -1), size * 0.06);
+  const polygonError =
+    points.reduce((s, p) => s + distToPolygon(p, polygon, true), 0) /
+    points.length;
+  const ellipse = fitEllipse(points);
+  const best = Math.min(polygonError, ellipse.error);
+  if (best > TOLERANCE * size) return;
+
+  if (ellipse.error <= polygonError || polygon.length > 8) {
+    return ellipse.error <= TOLERANCE * size ? ellipse.shape : undefined;
+  }
+  if (polygon.length < 3) return;
+  if (polygon.length === 3) {
+    return { type: "triangle", points: polygon, closed: true };
+  }
+  const rectangle = polygon.length === 4 && toRectangle(polygon);
+  if (rectangle) return { type: "rectangle", points: rectangle, closed: true };
+  return { type: "polygon", points: polygon, closed: true };
+};
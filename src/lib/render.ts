@@ -0,0 +1,98 @@
+import { Matrix, ParsedItem, RGBA, tracePath } from "./pathData";
+
+export type Context2D =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+export interface DrawOptions {
+  // a loaded image for a raster source, undefined while it is loading.
+  getImage?: (source: string) => CanvasImageSource | undefined;
+}
+
+const toCSS = ([r, g, b, a]: RGBA) =>
+  `rgba(${[r, g, b].map((c) => Math.round(c * 255)).join(",")},${a})`;
+
+// paper.js names its blend modes after css, except for a few of its own.
+const compositeOperation = (mode: string): GlobalCompositeOperation =>
+  ((
+    { normal: "source-over", add: "lighter" } as {
+      [key: string]: GlobalCompositeOperation | undefined;
+    }
+  )[mode] ?? (mode as GlobalCompositeOperation));
+
+const imageSize = (image: CanvasImageSource) => {
+  if ("naturalWidth" in image) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  const { width, height } = image as { width: number; height: number };
+  return { width, height };
+};
+
+const traceSubPaths = (ctx: Context2D, item: ParsedItem & { type: "path" }) => {
+  ctx.beginPath();
+  item.subPaths.forEach((subPath) =>
+    tracePath(subPath, {
+      moveTo: (x, y) => ctx.moveTo(x, y),
+      lineTo: (x, y) => ctx.lineTo(x, y),
+      curveTo: (...c) => ctx.bezierCurveTo(...c),
+      close: () => ctx.closePath(),
+    })
+  );
+};
+
+// draws a parsed stroke the way paper.js paints it on its own canvas.
+export const drawItem = (
+  ctx: Context2D,
+  item: ParsedItem,
+  options: DrawOptions = {}
+) => {
+  if (!item.visible || item.style.opacity === 0) return;
+  const { style, matrix } = item;
+  ctx.save();
+  ctx.transform(...(matrix as Matrix));
+  ctx.globalAlpha *= style.opacity;
+  ctx.globalCompositeOperation = compositeOperation(style.blendMode);
+
+  const { fillColor, strokeColor } = style;
+  if (fillColor) ctx.fillStyle = toCSS(fillColor);
+  if (strokeColor) {
+    ctx.strokeStyle = toCSS(strokeColor);
+    ctx.lineWidth = style.strokeWidth;
+    ctx.lineCap = style.strokeCap;
+    ctx.lineJoin = style.strokeJoin;
+    ctx.miterLimit = style.miterLimit;
+    ctx.setLineDash(style.dashArray);
+    ctx.lineDashOffset = style.dashOffset;
+  }
+
+  switch (item.type) {
+    case "path":
+      traceSubPaths(ctx, item);
+      if (fillColor) ctx.fill(style.fillRule);
+      if (strokeColor && style.strokeWidth > 0) ctx.stroke();
+      break;
+    case "text": {
+      ctx.font = `${item.fontWeight} ${item.fontSize}px ${item.fontFamily}`;
+      ctx.textAlign = item.justification;
+      // paper draws each line from the baseline, one leading apart.
+      item.content.split(/\r\n|[\n\r]/).forEach((line, i) => {
+        const y = i * item.leading;
+        if (fillColor) ctx.fillText(line, 0, y);
+        if (strokeColor && style.strokeWidth > 0) ctx.strokeText(line, 0, y);
+      });
+      break;
+    }
+    case "raster": {
+      const image = options.getImage?.(item.source);
+      if (!image) break;
+      const { width, height } = imageSize(image);
+      // a raster is centered on its own origin.
+      ctx.drawImage(image, -width / 2, -height / 2, width, height);
+      break;
+    }
+    case "group":
+      item.children.forEach((child) => drawItem(ctx, child, options));
+      break;
+  }
+  ctx.restore();
+};
@@ -0,0 +1,480 @@
+// DOM-free model and layout of the rich text kept in a text box stroke.
+
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  fontSize?: number;
+}
+
+export type ResolvedTextStyle = Required<TextStyle>;
+
+export interface TextRun {
+  text: string;
+  style: TextStyle;
+}
+
+export interface RichTextData {
+  runs: TextRun[];
+  // the box wraps lines at this width.
+  width: number;
+  fontFamily: string;
+  // defaults for runs without their own size or colour.
+  fontSize: number;
+  color: string;
+}
+
+// width of `text` drawn with a css `font`.
+export type MeasureText = (text: string, font: string) => number;
+
+export interface TextFragment {
+  text: string;
+  start: number;
+  x: number;
+  style: ResolvedTextStyle;
+  // x of each caret position, relative to the fragment.
+  offsets: number[];
+}
+
+export interface TextLine {
+  start: number;
+  // excludes the line break.
+  end: number;
+  top: number;
+  height: number;
+  baseline: number;
+  fragments: TextFragment[];
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  height: number;
+}
+
+export interface TextRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const LEADING = 1.2;
+
+const cleanStyle = (style: TextStyle) => {
+  const clean: TextStyle = {};
+  if (style.bold) clean.bold = true;
+  if (style.italic) clean.italic = true;
+  if (style.underline) clean.underline = true;
+  if (style.color) clean.color = style.color;
+  if (style.fontSize) clean.fontSize = style.fontSize;
+  return clean;
+};
+
+const isSameStyle = (s0: TextStyle, s1: TextStyle) =>
+  s0.bold === s1.bold &&
+  s0.italic === s1.italic &&
+  s0.underline === s1.underline &&
+  s0.color === s1.color &&
+  s0.fontSize === s1.fontSize;
+
+// merges neighbouring runs of the same style and drops empty ones.
+const normalizeRuns = (runs: TextRun[]) =>
+  runs.reduce<TextRun[]>((result, { text, style }) => {
+    if (!text) return result;
+    const last = result[result.length - 1];
+    const clean = cleanStyle(style);
+    if (last && isSameStyle(last.style, clean)) {
+      last.text += text;
+    } else {
+      result.push({ text, style: clean });
+    }
+    return result;
+  }, []);
+
+export const createRichText = (
+  options: Partial<Omit<RichTextData, "runs">> & { text?: string } = {}
+): RichTextData => {
+  const { text = "", ...rest } = options;
+  return {
+    width: 400,
+    fontFamily: "Arial, sans-serif",
+    fontSize: 50,
+    color: "#000000",
+    ...rest,
+    runs: normalizeRuns([{ text, style: {} }]),
+  };
+};
+
+export const getPlainText = ({ runs }: RichTextData) =>
+  runs.map(({ text }) => text).join("");
+
+export const resolveStyle = (
+  data: RichTextData,
+  style: TextStyle
+): ResolvedTextStyle => ({
+  bold: !!style.bold,
+  italic: !!style.italic,
+  underline: !!style.underline,
+  color: style.color ?? data.color,
+  fontSize: style.fontSize ?? data.fontSize,
+});
+
+// the paper.js `fontWeight`, which is put in front of the font size.
+export const getFontWeight = ({ bold, italic }: TextStyle) =>
+  [italic ? "italic" : "", bold ? "bold" : "normal"].join(" ").trim();
+
+export const getFont = (fontFamily: string, style: ResolvedTextStyle) =>
+  `${getFontWeight(style)} ${style.fontSize}px ${fontFamily}`;
+
+// splits the runs at `index`, returning the number of runs before it.
+const splitRuns = (runs: TextRun[], index: number) => {
+  let offset = 0;
+  for (let i = 0; i < runs.length; i += 1) {
+    const run = runs[i];
+    if (!run) break;
+    if (index <= offset) return i;
+    const end = offset + run.text.length;
+    if (index < end) {
+      const at = index - offset;
+      runs.splice(
+        i,
+        1,
+        { text: run.text.slice(0, at), style: run.style },
+        { text: run.text.slice(at), style: run.style }
+      );
+      return i + 1;
+    }
+    offset = end;
+  }
+  return runs.length;
+};
+
+const copyRuns = (runs: TextRun[]) =>
+  runs.map(({ text, style }) => ({ text, style: { ...style } }));
+
+// the style typed text takes at `index`: the one of the character before.
+export const getStyleAt = ({ runs }: RichTextData, index: number) => {
+  let offset = 0;
+  for (const run of runs) {
+    offset += run.text.length;
+    if (index <= offset) return { ...run.style };
+  }
+  return { ...(runs[runs.length - 1]?.style ?? {}) };
+};
+
+// the style shared by all characters in the range, as far as they agree.
+export const getRangeStyle = (
+  data: RichTextData,
+  from: number,
+  to: number
+): TextStyle => {
+  if (from >= to) return getStyleAt(data, from);
+  const runs = copyRuns(data.runs);
+  const start = splitRuns(runs, from);
+  const end = splitRuns(runs, to);
+  const styles = runs.slice(start, end).map(({ style }) => style);
+  const [first = {}, ...rest] = styles;
+  const shared: TextStyle = { ...first };
+  rest.forEach((style) => {
+    if (shared.bold !== style.bold) delete shared.bold;
+    if (shared.italic !== style.italic) delete shared.italic;
+    if (shared.underline !== style.underline) delete shared.underline;
+    if (shared.color !== style.color) delete shared.color;
+    if (shared.fontSize !== style.fontSize) delete shared.fontSize;
+  });
+  return shared;
+};
+
+export const replaceText = (
+  data: RichTextData,
+  from: number,
+  to: number,
+  text: string,
+  style = getStyleAt(data, from)
+): RichTextData => {
+  const runs = copyRuns(data.runs);
+  const start = splitRuns(runs, from);
+  const end = splitRuns(runs, to);
+  runs.splice(start, end - start, { text, style });
+  return { ...data, runs: normalizeRuns(runs) };
+};
+
+export const formatText = (
+  data: RichTextData,
+  from: number,
+  to: number,
+  style: TextStyle
+): RichTextData => {
+  const runs = copyRuns(data.runs);
+  const start = splitRuns(runs, from);
+  const end = splitRuns(runs, to);
+  runs.slice(start, end).forEach((run) => {
+    run.style = { ...run.style, ...style };
+  });
+  return { ...data, runs: normalizeRuns(runs) };
+};
+
+interface Piece {
+  text: string;
+  start: number;
+  style: ResolvedTextStyle;
+  width: number;
+  // the width without trailing spaces, which may hang over the box.
+  ink: number;
+}
+
+// the runs cut into words with their trailing spaces, and line breaks.
+const getWords = (data: RichTextData, measure: MeasureText) => {
+  const paragraphs: Piece[][][] = [[]];
+  let word: Piece[] = [];
+  let offset = 0;
+  const endWord = () => {
+    if (word.length) paragraphs[paragraphs.length - 1]?.push(word);
+    word = [];
+  };
+  data.runs.forEach(({ text, style }) => {
+    const resolved = resolveStyle(data, style);
+    const font = getFont(data.fontFamily, resolved);
+    text.split(/(\n|\S+[^\S\n]*|[^\S\n]+)/).forEach((token) => {
+      if (!token) return;
+      if (token === "\n") {
+        endWord();
+        paragraphs.push([]);
+      } else {
+        const width = measure(token, font);
+        const trimmed = token.replace(/\s+$/, "");
+        const ink = trimmed === token ? width : measure(trimmed, font);
+        word.push({ text: token, start: offset, style: resolved, width, ink });
+        if (/\s$/.test(token)) endWord();
+      }
+      offset += token.length;
+    });
+  });
+  endWord();
+  return paragraphs;
+};
+
+// cuts a word too wide for the box into lines, at least a character each.
+const breakWord = (
+  word: Piece[],
+  width: number,
+  fontFamily: string,
+  measure: MeasureText
+) => {
+  const lines: Piece[][] = [];
+  let line: Piece[] = [];
+  let x = 0;
+  word.forEach(({ text, start, style }) => {
+    const font = getFont(fontFamily, style);
+    let from = 0;
+    const cut = (to: number) => {
+      if (to <= from) return;
+      const piece = text.slice(from, to);
+      const w = measure(piece, font);
+      line.push({ text: piece, start: start + from, style, width: w, ink: w });
+      x += w;
+      from = to;
+    };
+    for (let i = 1; i <= text.length; i += 1) {
+      if (x + measure(text.slice(from, i), font) <= width) continue;
+      if (i - 1 > from) cut(i - 1);
+      else if (!line.length) cut(i);
+      lines.push(line);
+      line = [];
+      x = 0;
+    }
+    cut(text.length);
+  });
+  if (line.length) lines.push(line);
+  return lines;
+};
+
+const toFragments = (
+  pieces: Piece[],
+  fontFamily: string,
+  measure: MeasureText
+) => {
+  const fragments: TextFragment[] = [];
+  let x = 0;
+  pieces.forEach((piece) => {
+    const last = fragments[fragments.length - 1];
+    if (last && isSameStyle(last.style, piece.style)) {
+      last.text += piece.text;
+    } else {
+      fragments.push({
+        text: piece.text,
+        start: piece.start,
+        x,
+        style: piece.style,
+        offsets: [],
+      });
+    }
+    x += piece.width;
+  });
+  fragments.forEach((fragment) => {
+    const font = getFont(fontFamily, fragment.style);
+    const { text } = fragment;
+    fragment.offsets = [0];
+    for (let i = 1; i <= text.length; i += 1) {
+      fragment.offsets.push(measure(text.slice(0, i), font));
+    }
+  });
+  // keep each fragment where the previous one ends.
+  fragments.reduce((x, fragment) => {
+    fragment.x = x;
+    return x + (fragment.offsets[fragment.offsets.length - 1] ?? 0);
+  }, 0);
+  return fragments;
+};
+
+export const layoutText = (
+  data: RichTextData,
+  measure: MeasureText
+): TextLayout => {
+  const { width, fontFamily } = data;
+  const lines: TextLine[] = [];
+  let top = 0;
+  let offset = 0;
+
+  const pushLine = (pieces: Piece[], end: number) => {
+    const start = pieces[0]?.start ?? offset;
+    // an empty line takes the size the text typed there would have.
+    const size = pieces.length
+      ? Math.max(...pieces.map(({ style }) => style.fontSize))
+      : resolveStyle(data, getStyleAt(data, start)).fontSize;
+    const height = size * LEADING;
+    lines.push({
+      start,
+      end,
+      top,
+      height,
+      baseline: top + size,
+      fragments: toFragments(pieces, fontFamily, measure),
+    });
+    top += height;
+  };
+
+  getWords(data, measure).forEach((paragraph) => {
+    let line: Piece[] = [];
+    let x = 0;
+    const lastWord = paragraph[paragraph.length - 1];
+    const lastPiece = lastWord?.[lastWord.length - 1];
+    const paragraphEnd = lastPiece
+      ? lastPiece.start + lastPiece.text.length
+      : offset;
+    paragraph.forEach((word) => {
+      const wordWidth = word.reduce((w, p) => w + p.width, 0);
+      const last = word[word.length - 1];
+      const inkWidth = wordWidth - (last ? last.width - last.ink : 0);
+      if (line.length && x + inkWidth > width) {
+        pushLine(line, word[0]?.start ?? offset);
+        line = [];
+        x = 0;
+      }
+      if (!line.length && inkWidth > width) {
+        const broken = breakWord(word, width, fontFamily, measure);
+        broken.slice(0, -1).forEach((pieces, i) => {
+          pushLine(pieces, broken[i + 1]?.[0]?.start ?? offset);
+        });
+        line = broken[broken.length - 1] ?? [];
+        x = line.reduce((w, p) => w + p.width, 0);
+        return;
+      }
+      line.push(...word);
+      x += wordWidth;
+    });
+    pushLine(line, paragraphEnd);
+    // skip the line break.
+    offset = paragraphEnd + 1;
+  });
+  return { lines, height: top };
+};
+
+const getLineAt = ({ lines }: TextLayout, index: number) => {
+  // at a soft wrap, the caret goes to the start of the next line.
+  const line = lines.find(
+    (line, i) =>
+      index >= line.start &&
+      (index < line.end ||
+        (index === line.end && lines[i + 1]?.start !== index))
+  );
+  return line ?? lines[lines.length - 1];
+};
+
+const getX = (line: TextLine, index: number) => {
+  for (const fragment of line.fragments) {
+    const at = index - fragment.start;
+    if (at >= 0 && at <= fragment.text.length) {
+      return fragment.x + (fragment.offsets[at] ?? 0);
+    }
+  }
+  const last = line.fragments[line.fragments.length - 1];
+  if (!last || index <= line.start) return 0;
+  return last.x + (last.offsets[last.offsets.length - 1] ?? 0);
+};
+
+export const getCaretRect = (layout: TextLayout, index: number): TextRect => {
+  const line = getLineAt(layout, index);
+  if (!line) return { x: 0, y: 0, width: 0, height: 0 };
+  return { x: getX(line, index), y: line.top, width: 0, height: line.height };
+};
+
+const getIndexInLine = (line: TextLine, x: number) => {
+  let best = line.start;
+  let bestDist = Infinity;
+  line.fragments.forEach((fragment) => {
+    fragment.offsets.forEach((offset, i) => {
+      const index = fragment.start + i;
+      if (index > line.end) return;
+      const dist = Math.abs(fragment.x + offset - x);
+      if (dist < bestDist) [best, bestDist] = [index, dist];
+    });
+  });
+  return best;
+};
+
+// the caret position closest to a point in the box.
+export const getIndexAt = (layout: TextLayout, x: number, y: number) => {
+  const { lines } = layout;
+  const line =
+    lines.find(({ top, height }) => y < top + height) ??
+    lines[lines.length - 1];
+  return line ? getIndexInLine(line, x) : 0;
+};
+
+// the caret position one line above or below.
+export const getVerticalIndex = (
+  layout: TextLayout,
+  index: number,
+  direction: -1 | 1
+) => {
+  const line = getLineAt(layout, index);
+  if (!line) return index;
+  const next = layout.lines[layout.lines.indexOf(line) + direction];
+  if (!next) return direction < 0 ? 0 : line.end;
+  return getIndexInLine(next, getX(line, index));
+};
+
+export const getLineBounds = (layout: TextLayout, index: number) => {
+  const line = getLineAt(layout, index);
+  return line ? [line.start, line.end] : [index, index];
+};
+
+export const getSelectionRects = (
+  layout: TextLayout,
+  from: number,
+  to: number
+): TextRect[] =>
+  layout.lines
+    .filter(({ start, end }) => from <= end && to >= start && from !== to)
+    .map((line) => {
+      const x0 = getX(line, Math.max(from, line.start));
+      // a selected line break shows as a small gap.
+      const x1 =
+        to > line.end
+          ? getX(line, line.end) + line.height / 4
+          : getX(line, Math.min(to, line.end));
+      return { x: x0, y: line.top, width: x1 - x0, height: line.height };
+    })
+    .filter(({ width }) => width > 0);
@@ -0,0 +1,430 @@
+import type { FlatState, StrokeData } from "./DrawState";
+
+// documents without a `version` field are version 0.
+export const FLAT_STATE_VERSION = 1;
+
+export interface FlatStateIssue {
+  // e.g. `strokes["<uid>"].pathData`.
+  path: string;
+  message: string;
+}
+
+export class FlatStateError extends Error {
+  constructor(public readonly issues: FlatStateIssue[]) {
+    super(issues.map(({ path, message }) => `${path}: ${message}`).join("\n"));
+    this.name = "FlatStateError";
+    // keep `instanceof` working with the ES5 target.
+    Object.setPrototypeOf(this, FlatStateError.prototype);
+  }
+}
+
+interface Migration {
+  // the version the document has after this step.
+  version: number;
+  migrate: (flatState: FlatState) => FlatState;
+}
+
+const migrations: Migration[] = [
+  {
+    // version 0 kept every MUTATE record of a stroke, only the last one counts.
+    version: 1,
+    migrate: (flatState) => {
+      const lastMutation = new Map<string, string>();
+      Object.values(flatState.strokes).forEach((stroke) => {
+        if (stroke.type !== "MUTATE") return;
+        lastMutation.set(stroke.originUid, stroke.uid);
+      });
+      const strokes: FlatState["strokes"] = {};
+      Object.entries(flatState.strokes).forEach(([uid, stroke]) => {
+        const superseded =
+          stroke.type === "MUTATE" &&
+          lastMutation.get(stroke.originUid) !== stroke.uid;
+        if (!superseded) strokes[uid] = stroke;
+      });
+      return { ...flatState, strokes };
+    },
+  },
+];
+
+const STROKE_TYPES: StrokeData["type"][] = [
+  "STROKE",
+  "HIDE",
+  "MUTATE",
+  "LAYER",
+  "ORDER",
+  "GROUP",
+];
+const OPERATION_TYPES = [
+  "add",
+  "add_list",
+  "erase",
+  "mutate",
+  "layer",
+  "restack",
+  "group",
+  "split",
+  "patch",
+  "revert",
+  "reapply",
+  "undo",
+  "redo",
+];
+
+const isObject = (v: unknown): v is { [key: string]: unknown } =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const describe = (v: unknown) =>
+  v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+
+const checkPathData = (pathData: string) => {
+  let json: unknown;
+  try {
+    json = JSON.parse(pathData);
+  } catch (e) {
+    return `is not valid JSON (${e instanceof Error ? e.message : e})`;
+  }
+  if (!Array.isArray(json)) {
+    return `must be a JSON array, got ${describe(json)}`;
+  }
+  // symbol definitions come first when a dictionary was used.
+  const item: unknown = Array.isArray(json[0]) ? json[json.length - 1] : json;
+  if (!Array.isArray(item) || typeof item[0] !== "string") {
+    return 'must be a serialized paper item, e.g. ["Path", {...}]';
+  }
+  if (item[1] !== undefined && !isObject(item[1])) {
+    return `has ${describe(item[1])} properties for ${item[0]}`;
+  }
+};
+
+const validateLayer = (
+  record: { [key: string]: unknown },
+  report: (field: string, message: string) => void
+) => {
+  const { name, order, visible, locked, opacity } = record;
+  if (typeof name !== "string") {
+    report("name", `must be a string, got ${describe(name)}`);
+  }
+  if (typeof order !== "number" || !isFinite(order)) {
+    report("order", `must be a finite number, got ${describe(order)}`);
+  }
+  if (typeof visible !== "boolean") {
+    report("visible", `must be a boolean, got ${describe(visible)}`);
+  }
+  if (typeof locked !== "boolean") {
+    report("locked", `must be a boolean, got ${describe(locked)}`);
+  }
+  if (typeof opacity !== "number" || !(opacity >= 0 && opacity <= 1)) {
+    report("opacity", `must be a number from 0 to 1, got ${opacity}`);
+  }
+};
+
+// a record at `path`, which is under its uid when `key` is given.
+const validateStroke = (
+  path: string,
+  stroke: unknown,
+  issues: FlatStateIssue[],
+  key?: string
+) => {
+  const report = (field: string, message: string) =>
+    issues.push({ path: field ? `${path}.${field}` : path, message });
+
+  if (!isObject(stroke)) {
+    return report("", `must be an object, got ${describe(stroke)}`);
+  }
+  const { type, uid, timestamp, originUid, pathData, layer, z, members } =
+    stroke;
+  if (
+    typeof type !== "string" ||
+    STROKE_TYPES.indexOf(type as StrokeData["type"]) < 0
+  ) {
+    return report("type", `unknown record type ${JSON.stringify(type)}`);
+  }
+  if (typeof uid !== "string" || !uid) {
+    report("uid", `must be a non-empty string, got ${describe(uid)}`);
+  } else if (key !== undefined && uid !== key) {
+    report("uid", `${JSON.stringify(uid)} doesn't match its key`);
+  }
+  if (typeof timestamp !== "number" || !isFinite(timestamp)) {
+    report("timestamp", `must be a finite number, got ${describe(timestamp)}`);
+  }
+  if (type !== "STROKE" && (typeof originUid !== "string" || !originUid)) {
+    report("originUid", `must be a non-empty string for ${type} records`);
+  }
+  if (type === "HIDE") return;
+  if (type === "LAYER") return validateLayer(stroke, report);
+  if (type === "GROUP") {
+    const valid =
+      Array.isArray(members) &&
+      members.every((member) => typeof member === "string" && member);
+    if (!valid) report("members", "must be an array of uids");
+    return;
+  }
+  if (type === "ORDER") {
+    if (typeof z !== "number" || !isFinite(z)) {
+      report("z", `must be a finite number, got ${describe(z)}`);
+    }
+    return;
+  }
+  if (layer !== undefined && (typeof layer !== "string" || !layer)) {
+    report("layer", `must be a non-empty string, got ${describe(layer)}`);
+  }
+  if (typeof pathData !== "string") {
+    return report("pathData", `must be a string, got ${describe(pathData)}`);
+  }
+  const message = checkPathData(pathData);
+  if (message) report("pathData", message);
+};
+
+const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === "number" && isFinite(v);
+
+const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every((item) => typeof item === "string");
+
+const isUidArray = (v: unknown): v is string[] =>
+  isStringArray(v) && v.every(Boolean);
+
+// the payload of an operation, as `DrawState.pushOperation` replays it.
+export const validateOperation = (
+  path: string,
+  op: unknown,
+  issues: FlatStateIssue[]
+) => {
+  // `path` is empty for an operation at the top level.
+  const at = (field: string) =>
+    path && field ? `${path}.${field}` : path || field;
+  const report = (field: string, message: string) =>
+    issues.push({ path: at(field), message });
+
+  if (!isObject(op)) {
+    return report("", `must be an object, got ${describe(op)}`);
+  }
+  const { type } = op;
+  if (typeof type !== "string" || OPERATION_TYPES.indexOf(type) < 0) {
+    return report("type", `unknown operation ${JSON.stringify(type)}`);
+  }
+  const record = (field: string, value: unknown, strokesOnly = false) => {
+    validateStroke(at(field), value, issues);
+    if (strokesOnly && isObject(value) && value.type !== "STROKE") {
+      report(`${field}.type`, "must be STROKE");
+    }
+  };
+  const records = (field: string, value: unknown, strokesOnly = false) => {
+    if (!Array.isArray(value)) {
+      return report(field, `must be an array, got ${describe(value)}`);
+    }
+    value.forEach((item: unknown, i) =>
+      record(`${field}[${i}]`, item, strokesOnly)
+    );
+  };
+  const uids = (field: string, value: unknown) => {
+    if (!isUidArray(value)) report(field, "must be an array of uids");
+  };
+  // `[uid, value]` pairs, e.g. the mutations of strokes.
+  const pairs = (
+    field: string,
+    value: unknown,
+    isValue: (v: unknown) => boolean,
+    name: string
+  ) => {
+    const valid =
+      Array.isArray(value) &&
+      value.every(
+        (pair) =>
+          Array.isArray(pair) &&
+          typeof pair[0] === "string" &&
+          pair[0] &&
+          isValue(pair[1])
+      );
+    if (!valid) report(field, `must be an array of [uid, ${name}] pairs`);
+  };
+  const timestamp = () => {
+    if (!isFiniteNumber(op.timestamp)) {
+      report(
+        "timestamp",
+        `must be a finite number, got ${describe(op.timestamp)}`
+      );
+    }
+  };
+
+  switch (type) {
+    case "add":
+      return record("stroke", op.stroke, true);
+    case "add_list":
+      return records("strokeList", op.strokeList, true);
+    case "erase":
+      return uids("erased", op.erased);
+    case "mutate": {
+      timestamp();
+      const { layer } = op;
+      if (layer !== undefined && (typeof layer !== "string" || !layer)) {
+        report("layer", `must be a non-empty string, got ${describe(layer)}`);
+      }
+      const isPathData = (v: unknown) => typeof v === "string";
+      return pairs("mutations", op.mutations, isPathData, "pathData");
+    }
+    case "layer": {
+      timestamp();
+      const { layers } = op;
+      if (!Array.isArray(layers)) {
+        return report("layers", `must be an array, got ${describe(layers)}`);
+      }
+      return layers.forEach((layer: unknown, i) => {
+        const field = `layers[${i}]`;
+        if (!isObject(layer)) {
+          return report(field, `must be an object, got ${describe(layer)}`);
+        }
+        if (typeof layer.uid !== "string" || !layer.uid) {
+          report(`${field}.uid`, "must be a non-empty string");
+        }
+        validateLayer(layer, (name, message) =>
+          report(`${field}.${name}`, message)
+        );
+      });
+    }
+    case "restack":
+      timestamp();
+      return pairs("orders", op.orders, isFiniteNumber, "z");
+    case "group":
+      timestamp();
+      return pairs("groups", op.groups, isUidArray, "members");
+    case "split":
+      return pairs("splitters", op.splitters, isStringArray, "pathData[]");
+    case "patch": {
+      const { patch } = op;
+      if (!isObject(patch)) {
+        return report("patch", `must be an object, got ${describe(patch)}`);
+      }
+      uids("patch.removed", patch.removed);
+      const { upserted } = patch;
+      if (!Array.isArray(upserted)) {
+        return report("patch.upserted", "must be an array of [record, uid]");
+      }
+      return upserted.forEach((entry: unknown, i) => {
+        const field = `patch.upserted[${i}]`;
+        const [upsert, after] = Array.isArray(entry) ? entry : [];
+        if (
+          !Array.isArray(entry) ||
+          (after !== null && typeof after !== "string")
+        ) {
+          report(field, "must be a [record, uid or null] pair");
+        }
+        record(`${field}[0]`, upsert);
+      });
+    }
+    case "revert":
+    case "reapply": {
+      const { inverse } = op;
+      if (!isObject(inverse)) {
+        return report("inverse", `must be an object, got ${describe(inverse)}`);
+      }
+      uids("inverse.removed", inverse.removed);
+      return records("inverse.restored", inverse.restored);
+    }
+  }
+};
+
+// lists everything wrong with an op received from another client.
+export const validateSyncOp = (value: unknown): FlatStateIssue[] => {
+  if (!isObject(value)) {
+    return [{ path: "", message: `must be an object, got ${describe(value)}` }];
+  }
+  const issues: FlatStateIssue[] = [];
+  const { clientID, seq, clock, patch } = value;
+  if (typeof clientID !== "string" || !clientID) {
+    issues.push({ path: "clientID", message: "must be a non-empty string" });
+  }
+  if (typeof seq !== "number" || !Number.isInteger(seq) || seq < 1) {
+    issues.push({ path: "seq", message: "must be a positive integer" });
+  }
+  const validClock =
+    isObject(clock) && Object.values(clock).every(isFiniteNumber);
+  if (!validClock) {
+    issues.push({ path: "clock", message: "must map client ids to numbers" });
+  }
+  validateOperation("", { type: "patch", patch }, issues);
+  return issues;
+};
+
+// lists everything wrong with a document of the current version.
+export const validateFlatState = (value: unknown): FlatStateIssue[] => {
+  const issues: FlatStateIssue[] = [];
+  if (!isObject(value)) {
+    return [{ path: "", message: `must be an object, got ${describe(value)}` }];
+  }
+  const { version, strokes, operations } = value;
+  if (version !== undefined && version !== FLAT_STATE_VERSION) {
+    issues.push({
+      path: "version",
+      message: `expected ${FLAT_STATE_VERSION}, got ${JSON.stringify(version)}`,
+    });
+  }
+  if (!isObject(strokes)) {
+    issues.push({
+      path: "strokes",
+      message: `must be an object, got ${describe(strokes)}`,
+    });
+  } else {
+    Object.keys(strokes).forEach((key) =>
+      validateStroke(
+        `strokes[${JSON.stringify(key)}]`,
+        strokes[key],
+        issues,
+        key
+      )
+    );
+  }
+  if (operations !== undefined) {
+    if (!Array.isArray(operations)) {
+      issues.push({
+        path: "operations",
+        message: `must be an array, got ${describe(operations)}`,
+      });
+    } else {
+      operations.forEach((op: unknown, i) =>
+        validateOperation(`operations[${i}]`, op, issues)
+      );
+    }
+  }
+  return issues;
+};
+
+// validates a stored document and upgrades it step by step to the current
+// version. throws a `FlatStateError` listing every issue found.
+export const migrateFlatState = (value: unknown): FlatState => {
+  if (!isObject(value)) throw new FlatStateError(validateFlatState(value));
+  const { version = 0 } = value;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    throw new FlatStateError([
+      {
+        path: "version",
+        message: `invalid version ${JSON.stringify(version)}`,
+      },
+    ]);
+  }
+  if (version > FLAT_STATE_VERSION) {
+    throw new FlatStateError([
+      {
+        path: "version",
+        message: `${version} is newer than the supported ${FLAT_STATE_VERSION}`,
+      },
+    ]);
+  }
+  // migrations may rely on well-formed records.
+  const prevIssues = validateFlatState({
+    ...value,
+    version: FLAT_STATE_VERSION,
+  });
+  if (prevIssues.length) throw new FlatStateError(prevIssues);
+
+  let flatState = value as unknown as FlatState;
+  migrations.forEach((migration) => {
+    if (migration.version <= version) return;
+    flatState = { ...migration.migrate(flatState), version: migration.version };
+  });
+  return { ...flatState, version: FLAT_STATE_VERSION };
+};
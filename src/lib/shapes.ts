@@ -0,0 +1,136 @@
+import type { Vec } from "./pathData";
+
+export type ShapeMode = "ellipse" | "line" | "arrow" | "polygon" | "star";
+
+export type ArrowHeads = "start" | "end" | "both";
+
+export type ShapeGeometry =
+  | { type: "polyline"; points: Vec[]; closed: boolean }
+  | { type: "ellipse"; center: Vec; radius: Vec; rotation: number };
+
+export interface ShapeOptions {
+  // keep the proportions: a circle, a regular polygon, 45° lines.
+  constrain?: boolean;
+  // the drag starts from the centre of the shape.
+  fromCenter?: boolean;
+  arrowHeads?: ArrowHeads;
+  arrowHeadSize?: number;
+  polygonSides?: number;
+  starPoints?: number;
+  // inner radius of a star, relative to the outer one.
+  starRatio?: number;
+}
+
+const ARROW_HEAD_ANGLE = 30;
+
+export const getArrowHead = (tail: Vec, tip: Vec, size: number): Vec[] => {
+  const angle = Math.atan2(tip[1] - tail[1], tip[0] - tail[0]);
+  return [1, -1].map((side): Vec => {
+    const a = angle + Math.PI - (side * ARROW_HEAD_ANGLE * Math.PI) / 180;
+    return [tip[0] + size * Math.cos(a), tip[1] + size * Math.sin(a)];
+  });
+};
+
+// points on the ellipse inscribed in the box, starting from the top.
+const around = (center: Vec, radius: Vec, radii: number[]) =>
+  radii.map((r, i): Vec => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / radii.length;
+    return [
+      center[0] + radius[0] * r * Math.cos(angle),
+      center[1] + radius[1] * r * Math.sin(angle),
+    ];
+  });
+
+const getBox = (
+  start: Vec,
+  end: Vec,
+  { constrain, fromCenter }: ShapeOptions
+) => {
+  let dx = end[0] - start[0];
+  let dy = end[1] - start[1];
+  if (constrain) {
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    dx = Math.sign(dx || 1) * size;
+    dy = Math.sign(dy || 1) * size;
+  }
+  if (fromCenter) {
+    return { center: start, radius: [Math.abs(dx), Math.abs(dy)] as Vec };
+  }
+  const center: Vec = [start[0] + dx / 2, start[1] + dy / 2];
+  return { center, radius: [Math.abs(dx) / 2, Math.abs(dy) / 2] as Vec };
+};
+
+const getSegment = (
+  start: Vec,
+  end: Vec,
+  { constrain, fromCenter }: ShapeOptions
+) => {
+  let dx = end[0] - start[0];
+  let dy = end[1] - start[1];
+  if (constrain) {
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+    const length = Math.hypot(dx, dy);
+    dx = length * Math.cos(angle);
+    dy = length * Math.sin(angle);
+  }
+  const from: Vec = fromCenter ? [start[0] - dx, start[1] - dy] : start;
+  const to: Vec = [start[0] + dx, start[1] + dy];
+  return [from, to] as const;
+};
+
+// the geometry of a shape dragged from `start` to `end`.
+export const getShapeGeometry = (
+  mode: ShapeMode,
+  start: Vec,
+  end: Vec,
+  options: ShapeOptions = {}
+): ShapeGeometry => {
+  switch (mode) {
+    case "ellipse": {
+      const { center, radius } = getBox(start, end, options);
+      return { type: "ellipse", center, radius, rotation: 0 };
+    }
+    case "polygon": {
+      const { center, radius } = getBox(start, end, options);
+      const sides = Math.max(3, Math.round(options.polygonSides ?? 6));
+      const points = around(center, radius, Array(sides).fill(1));
+      return { type: "polyline", points, closed: true };
+    }
+    case "star": {
+      const { center, radius } = getBox(start, end, options);
+      const count = Math.max(3, Math.round(options.starPoints ?? 5));
+      const { starRatio = 0.5 } = options;
+      const radii = Array.from({ length: count * 2 }, (_, i) =>
+        i % 2 ? starRatio : 1
+      );
+      return {
+        type: "polyline",
+        points: around(center, radius, radii),
+        closed: true,
+      };
+    }
+    case "line": {
+      const [from, to] = getSegment(start, end, options);
+      return { type: "polyline", points: [from, to], closed: false };
+    }
+    case "arrow": {
+      const [from, to] = getSegment(start, end, options);
+      const { arrowHeads = "end" } = options;
+      const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+      const size = Math.min(options.arrowHeadSize ?? 40, length / 3);
+      // a single polyline, going back and forth over each tip.
+      const points: Vec[] = [];
+      if (arrowHeads !== "end") {
+        const [left, right] = getArrowHead(to, from, size);
+        if (left && right) points.push(left, from, right);
+      }
+      points.push(from, to);
+      if (arrowHeads !== "start") {
+        const [left, right] = getArrowHead(from, to, size);
+        if (left && right) points.push(left, to, right);
+      }
+      return { type: "polyline", points, closed: false };
+    }
+  }
+};
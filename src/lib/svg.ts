@@ -0,0 +1,219 @@
+import { DrawLayer, getStrokeLayer, Stroke } from "./DrawState";
+import {
+  Matrix,
+  RGBA,
+  SubPath,
+  ParsedItem,
+  isIdentity,
+  parsePathData,
+  tracePath,
+} from "./pathData";
+import { getImageInfo } from "./image";
+
+export interface SVGExportOptions {
+  // page background, `null` for a transparent page.
+  background?: string | null;
+  // size of rasters whose source isn't an embedded data url.
+  getImageSize?: (
+    source: string
+  ) => { width: number; height: number } | undefined;
+  // the layers of the strokes, each faded as a whole by its opacity.
+  layers?: DrawLayer[];
+}
+
+const num = (n: number) => String(Math.round(n * 1000) / 1000);
+
+export const escapeXML = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" }[
+        c
+      ] ?? c)
+  );
+
+const colorAttrs = (name: "fill" | "stroke", color?: RGBA) => {
+  if (!color) return [`${name}="none"`];
+  const [r, g, b, a] = color;
+  const rgb = [r, g, b].map((c) => Math.round(c * 255)).join(",");
+  const attrs = [`${name}="rgb(${rgb})"`];
+  if (a < 1) attrs.push(`${name}-opacity="${num(a)}"`);
+  return attrs;
+};
+
+const matrixAttr = (m: Matrix) =>
+  isIdentity(m) ? [] : [`transform="matrix(${m.map(num).join(" ")})"`];
+
+export const subPathToD = (subPath: SubPath) => {
+  const cmds: string[] = [];
+  const cmd = (c: string, coords: number[]) =>
+    cmds.push(c + coords.map(num).join(" "));
+  tracePath(subPath, {
+    moveTo: (...p) => cmd("M", p),
+    lineTo: (...p) => cmd("L", p),
+    curveTo: (...p) => cmd("C", p),
+    close: () => cmds.push("Z"),
+  });
+  return cmds.join("");
+};
+
+const itemToSVG = (
+  item: ParsedItem,
+  options: SVGExportOptions
+): string | undefined => {
+  if (!item.visible) return;
+  const { style, matrix } = item;
+  const common = matrixAttr(matrix);
+  if (style.opacity < 1) common.push(`opacity="${num(style.opacity)}"`);
+  if (style.blendMode !== "normal") {
+    common.push(`style="mix-blend-mode:${style.blendMode}"`);
+  }
+
+  switch (item.type) {
+    case "path": {
+      const d = item.subPaths.map(subPathToD).join("");
+      if (!d) return;
+      const attrs = [
+        `d="${d}"`,
+        ...common,
+        ...colorAttrs("fill", style.fillColor),
+        ...colorAttrs("stroke", style.strokeColor),
+      ];
+      if (style.fillColor && style.fillRule !== "nonzero") {
+        attrs.push(`fill-rule="${style.fillRule}"`);
+      }
+      if (style.strokeColor) {
+        attrs.push(`stroke-width="${num(style.strokeWidth)}"`);
+        if (style.strokeCap !== "butt") {
+          attrs.push(`stroke-linecap="${style.strokeCap}"`);
+        }
+        if (style.strokeJoin !== "miter") {
+          attrs.push(`stroke-linejoin="${style.strokeJoin}"`);
+        } else if (style.miterLimit !== 4) {
+          attrs.push(`stroke-miterlimit="${num(style.miterLimit)}"`);
+        }
+        if (style.dashArray.length) {
+          attrs.push(`stroke-dasharray="${style.dashArray.map(num)}"`);
+          if (style.dashOffset) {
+            attrs.push(`stroke-dashoffset="${num(style.dashOffset)}"`);
+          }
+        }
+      }
+      return `<path ${attrs.join(" ")}/>`;
+    }
+    case "text": {
+      if (!item.content) return;
+      const anchor = { left: "start", center: "middle", right: "end" }[
+        item.justification
+      ];
+      const attrs = [
+        ...common,
+        `font-family="${escapeXML(item.fontFamily)}"`,
+        `font-size="${num(item.fontSize)}"`,
+        ...colorAttrs("fill", style.fillColor),
+      ];
+      // paper.js puts the font style in front of the weight.
+      const italic = /italic|oblique/.test(item.fontWeight);
+      const weight = item.fontWeight.replace(/italic|oblique/, "").trim();
+      if (italic) attrs.push(`font-style="italic"`);
+      if (weight && weight !== "normal") {
+        attrs.push(`font-weight="${escapeXML(weight)}"`);
+      }
+      if (anchor !== "start") attrs.push(`text-anchor="${anchor}"`);
+      if (style.strokeColor) {
+        attrs.push(...colorAttrs("stroke", style.strokeColor));
+        attrs.push(`stroke-width="${num(style.strokeWidth)}"`);
+      }
+      // paper draws each line from the baseline, one leading apart.
+      const lines = item.content
+        .split(/\r\n|[\n\r]/)
+        .map(
+          (line, i) =>
+            `<tspan x="0" y="${num(i * item.leading)}">${escapeXML(
+              line
+            )}</tspan>`
+        );
+      return `<text ${attrs.join(" ")}>${lines.join("")}</text>`;
+    }
+    case "raster": {
+      const { source } = item;
+      const size = getImageInfo(source) ?? options.getImageSize?.(source);
+      if (!size) return;
+      const { width, height } = size;
+      // a raster is centered on its own origin.
+      const attrs = [
+        ...common,
+        `x="${num(-width / 2)}"`,
+        `y="${num(-height / 2)}"`,
+        `width="${num(width)}"`,
+        `height="${num(height)}"`,
+        `href="${escapeXML(source)}"`,
+        `xlink:href="${escapeXML(source)}"`,
+      ];
+      return `<image ${attrs.join(" ")}/>`;
+    }
+    case "group": {
+      const children = item.children
+        .map((child) => itemToSVG(child, options))
+        .filter(Boolean);
+      if (!children.length) return;
+      return `<g${common.map((a) => " " + a).join("")}>${children.join(
+        ""
+      )}</g>`;
+    }
+  }
+};
+
+export const strokeToSVG = (stroke: Stroke, options: SVGExportOptions = {}) => {
+  const item = parsePathData(stroke.pathData);
+  return item && itemToSVG(item, options);
+};
+
+export const renderSVG = (
+  strokes: Iterable<Stroke> | ArrayLike<Stroke>,
+  width: number,
+  height: number,
+  options: SVGExportOptions = {}
+) => {
+  const { background = "#fff", layers = [] } = options;
+  const opacity = new Map(layers.map(({ uid, opacity }) => [uid, opacity]));
+  const body: string[] = [];
+  // consecutive strokes of a faded layer go in one group.
+  let group: { layer: string; children: string[] } | undefined;
+  const closeGroup = () => {
+    if (!group?.children.length) return;
+    const value = num(opacity.get(group.layer) ?? 1);
+    body.push(`<g opacity="${value}">${group.children.join("")}</g>`);
+  };
+  Array.from(strokes).forEach((stroke) => {
+    const svg = strokeToSVG(stroke, options);
+    if (!svg) return;
+    const layer = getStrokeLayer(stroke);
+    if ((opacity.get(layer) ?? 1) >= 1) {
+      closeGroup();
+      group = undefined;
+      body.push(svg);
+    } else if (group?.layer === layer) {
+      group.children.push(svg);
+    } else {
+      closeGroup();
+      group = { layer, children: [svg] };
+    }
+  });
+  closeGroup();
+  if (background) {
+    const bg = escapeXML(background);
+    body.unshift(
+      `<rect width="${num(width)}" height="${num(height)}" fill="${bg}"/>`
+    );
+  }
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"`,
+    ` width="${num(width)}" height="${num(height)}"`,
+    ` viewBox="0 0 ${num(width)} ${num(height)}">`,
+    // keep the blend modes inside the page, like the clipped paper layer.
+    `<g style="isolation:isolate">`,
+    ...body,
+    `</g></svg>`,
+  ].join("");
+};
@@ -0,0 +1,485 @@
+import { DrawLayer, getStrokeLayer, Stroke } from "./DrawState";
+import {
+  Matrix,
+  ParsedItem,
+  SubPath,
+  Vec,
+  multiplyMatrix,
+  parsePathData,
+  tracePath,
+  transformPoint,
+} from "./pathData";
+import { getImageInfo } from "./image";
+import { Context2D, drawItem } from "./render";
+import { GridRect, SpatialGrid } from "./grid";
+
+export type TileCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+export interface Tile {
+  key: string;
+  level: number;
+  // the area in project coordinates.
+  bounds: GridRect;
+  canvas: TileCanvas;
+}
+
+export interface TileOptions {
+  createCanvas: (width: number, height: number) => TileCanvas;
+  loadImage?: (source: string) => Promise<CanvasImageSource>;
+  // images were loaded, or anything else changed the tiles by itself.
+  onChange?: () => void;
+  // in device pixels.
+  tileSize?: number;
+  // how many tiles are kept, the least recently used are dropped.
+  maxTiles?: number;
+}
+
+interface Entry {
+  stroke: Stroke;
+  // parsed on first paint, undefined when it can't be.
+  item?: ParsedItem | null;
+  bounds?: GridRect | null;
+  // simplified geometry by level.
+  details?: Map<number, ParsedItem>;
+}
+
+// levels are powers of two of the device pixels per project unit.
+const MIN_LEVEL = -6;
+const MAX_LEVEL = 4;
+
+// tiles rendered per frame, the others wait for the next frames.
+export const TILE_BUDGET = 8;
+
+export const defaultLoadImage = async (source: string) => {
+  const res = await fetch(source);
+  return createImageBitmap(await res.blob());
+};
+
+const intersects = (a: GridRect, b: GridRect) =>
+  a.x <= b.x + b.width &&
+  b.x <= a.x + a.width &&
+  a.y <= b.y + b.height &&
+  b.y <= a.y + a.height;
+
+const boundsOf = (points: Vec[], margin: number): GridRect | null => {
+  if (!points.length) return null;
+  let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+  points.forEach(([x, y]) => {
+    x0 = Math.min(x0, x);
+    y0 = Math.min(y0, y);
+    x1 = Math.max(x1, x);
+    y1 = Math.max(y1, y);
+  });
+  return {
+    x: x0 - margin,
+    y: y0 - margin,
+    width: x1 - x0 + 2 * margin,
+    height: y1 - y0 + 2 * margin,
+  };
+};
+
+const unite = (rects: (GridRect | null)[]) =>
+  boundsOf(
+    rects.flatMap((r): Vec[] =>
+      r
+        ? [
+            [r.x, r.y],
+            [r.x + r.width, r.y + r.height],
+          ]
+        : []
+    ),
+    0
+  );
+
+const getScale = ([a, b, c, d]: Matrix) => Math.sqrt(Math.abs(a * d - b * c));
+
+// a box around what the item paints, in the coordinates of its parent.
+// Curves are bounded by their handles, and text by one em per character.
+export const getItemBounds = (
+  item: ParsedItem,
+  parent: Matrix = [1, 0, 0, 1, 0, 0]
+): GridRect | null => {
+  const m = multiplyMatrix(parent, item.matrix);
+  const corners = (x: number, y: number, w: number, h: number): Vec[] =>
+    [
+      [x, y],
+      [x + w, y],
+      [x, y + h],
+      [x + w, y + h],
+    ].map((p) => transformPoint(m, p as Vec));
+
+  switch (item.type) {
+    case "path": {
+      const points: Vec[] = [];
+      item.subPaths.forEach(({ segments }) =>
+        segments.forEach(({ point: [x, y], handleIn, handleOut }) => {
+          points.push([x, y]);
+          points.push([x + handleIn[0], y + handleIn[1]]);
+          points.push([x + handleOut[0], y + handleOut[1]]);
+        })
+      );
+      const { strokeColor, strokeWidth, strokeJoin, miterLimit } = item.style;
+      let margin = strokeColor ? strokeWidth / 2 : 0;
+      if (strokeJoin === "miter") margin *= Math.max(miterLimit, 1);
+      return boundsOf(
+        points.map((p) => transformPoint(m, p)),
+        margin * getScale(m)
+      );
+    }
+    case "text": {
+      const lines = item.content.split(/\r\n|[\n\r]/);
+      const { fontSize, leading } = item;
+      const width = Math.max(...lines.map((l) => l.length)) * fontSize;
+      const x = { left: 0, center: -width / 2, right: -width }[
+        item.justification
+      ];
+      const height = (lines.length - 1) * leading + fontSize * 1.5;
+      return boundsOf(corners(x, -fontSize, width, height), 0);
+    }
+    case "raster": {
+      const info = getImageInfo(item.source);
+      if (!info) return null;
+      const { width, height } = info;
+      return boundsOf(corners(-width / 2, -height / 2, width, height), 0);
+    }
+    case "group":
+      return unite(item.children.map((child) => getItemBounds(child, m)));
+  }
+};
+
+// the points of a sub path, with curves cut into lines no further than
+// `tolerance` from them.
+const flattenSubPath = (subPath: SubPath, tolerance: number) => {
+  const points: Vec[] = [];
+  tracePath(subPath, {
+    moveTo: (x, y) => points.push([x, y]),
+    lineTo: (x, y) => points.push([x, y]),
+    curveTo: (x1, y1, x2, y2, x, y) => {
+      const [x0, y0] = points[points.length - 1] ?? [x1, y1];
+      const net =
+        Math.hypot(x1 - x0, y1 - y0) +
+        Math.hypot(x2 - x1, y2 - y1) +
+        Math.hypot(x - x2, y - y2);
+      const steps = Math.min(Math.ceil(Math.sqrt(net / tolerance)), 16);
+      for (let i = 1; i <= steps; i += 1) {
+        const t = i / steps;
+        const u = 1 - t;
+        const [a, b, c, d] = [
+          u * u * u,
+          3 * u * u * t,
+          3 * u * t * t,
+          t * t * t,
+        ];
+        points.push([
+          a * x0 + b * x1 + c * x2 + d * x,
+          a * y0 + b * y1 + c * y2 + d * y,
+        ]);
+      }
+    },
+    close: () => {},
+  });
+  return points;
+};
+
+// Ramer–Douglas–Peucker, without recursion for long strokes.
+const simplifyPoints = (points: Vec[], tolerance: number) => {
+  if (points.length < 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [from, to] = stack.pop() as [number, number];
+    const [x0, y0] = points[from] as Vec;
+    const [x1, y1] = points[to] as Vec;
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    let max = 0;
+    let index = -1;
+    for (let i = from + 1; i < to; i += 1) {
+      const [x, y] = points[i] as Vec;
+      const d = length
+        ? Math.abs((x1 - x0) * (y0 - y) - (x0 - x) * (y1 - y0)) / length
+        : Math.hypot(x - x0, y - y0);
+      if (d > max) [max, index] = [d, i];
+    }
+    if (max <= tolerance || index < 0) continue;
+    keep[index] = 1;
+    stack.push([from, index], [index, to]);
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// the item with fewer segments, as far as it looks the same `tolerance`
+// project units away.
+export const simplifyItem = (
+  item: ParsedItem,
+  tolerance: number
+): ParsedItem => {
+  const local = tolerance / (getScale(item.matrix) || 1);
+  switch (item.type) {
+    case "path": {
+      const subPaths = item.subPaths.map((subPath): SubPath => {
+        if (subPath.segments.length < 4) return subPath;
+        const points = simplifyPoints(flattenSubPath(subPath, local), local);
+        // the closing segment is drawn by `closed`.
+        if (subPath.closed && points.length > 1) points.pop();
+        return {
+          closed: subPath.closed,
+          segments: points.map((point) => ({
+            point,
+            handleIn: [0, 0],
+            handleOut: [0, 0],
+          })),
+        };
+      });
+      return { ...item, subPaths };
+    }
+    case "group":
+      return {
+        ...item,
+        children: item.children.map((child) => simplifyItem(child, local)),
+      };
+    default:
+      return item;
+  }
+};
+
+// the committed strokes, painted in square tiles per zoom level. Only the
+// strokes over a tile are drawn into it, simplified below the page scale,
+// and a change only drops the tiles it covers.
+export class StrokeTiles {
+  private order: string[] = [];
+  // paint order by uid, rebuilt after the order changes.
+  private rank?: Map<string, number>;
+  private entries = new Map<string, Entry>();
+  private previews = new Map<string, Entry>();
+  private grid = new SpatialGrid<string>(256);
+  // strokes without known bounds, over every tile.
+  private unbounded = new Set<string>();
+  private tiles = new Map<string, Tile>();
+  private layers: DrawLayer[] = [];
+  // undefined while loading, null when it failed.
+  private images = new Map<string, CanvasImageSource | null | undefined>();
+  private tileSize: number;
+  private maxTiles: number;
+
+  constructor(private options: TileOptions) {
+    this.tileSize = options.tileSize ?? 256;
+    this.maxTiles = options.maxTiles ?? 128;
+  }
+
+  // the level for a scale in device pixels per project unit, sharp enough.
+  getLevel(scale: number) {
+    const level = Math.ceil(Math.log2(scale) - 1e-9);
+    return Math.min(Math.max(level, MIN_LEVEL), MAX_LEVEL);
+  }
+
+  getImage = (source: string) => {
+    const { images } = this;
+    if (!images.has(source)) {
+      images.set(source, undefined);
+      const { loadImage = defaultLoadImage, onChange } = this.options;
+      loadImage(source).then(
+        (image) => {
+          images.set(source, image);
+          // rasters are only drawn once loaded.
+          this.tiles.clear();
+          onChange?.();
+        },
+        () => images.set(source, null)
+      );
+    }
+    return images.get(source) ?? undefined;
+  };
+
+  private getEntry(uid: string) {
+    return this.previews.get(uid) ?? this.entries.get(uid);
+  }
+
+  private parse(entry: Entry) {
+    if (entry.item === undefined) {
+      entry.item = parsePathData(entry.stroke.pathData) ?? null;
+      entry.bounds = entry.item && getItemBounds(entry.item);
+    }
+    return entry;
+  }
+
+  private index(uid: string) {
+    const entry = this.getEntry(uid);
+    this.grid.remove(uid);
+    this.unbounded.delete(uid);
+    if (!entry) return;
+    const { bounds } = this.parse(entry);
+    if (bounds) {
+      this.grid.insert(uid, bounds);
+      this.invalidate(bounds);
+    } else {
+      this.unbounded.add(uid);
+      this.tiles.clear();
+    }
+  }
+
+  private unindex(uid: string) {
+    const entry = this.getEntry(uid);
+    if (entry?.bounds) this.invalidate(entry.bounds);
+    else if (entry) this.tiles.clear();
+    this.grid.remove(uid);
+    this.unbounded.delete(uid);
+  }
+
+  // drops the tiles over an area.
+  invalidate(bounds: GridRect) {
+    this.tiles.forEach((tile, key) => {
+      if (intersects(tile.bounds, bounds)) this.tiles.delete(key);
+    });
+  }
+
+  // applies the change of the merged strokes, see `DrawState.diffMerged`.
+  applyPatch(removed: string[], upserted: [Stroke, string | null][]) {
+    const removedSet = new Set(removed);
+    removed.forEach((uid) => {
+      this.unindex(uid);
+      this.entries.delete(uid);
+      this.previews.delete(uid);
+    });
+    if (removedSet.size) {
+      this.order = this.order.filter((uid) => !removedSet.has(uid));
+    }
+    const { order } = this;
+    upserted.forEach(([stroke, after]) => {
+      const { uid } = stroke;
+      if (this.entries.has(uid)) {
+        this.unindex(uid);
+        order.splice(order.indexOf(uid), 1);
+      }
+      // most strokes go after the last one.
+      order.splice(after === null ? 0 : order.lastIndexOf(after) + 1, 0, uid);
+      this.entries.set(uid, { stroke });
+      this.previews.delete(uid);
+      this.index(uid);
+    });
+    if (removed.length || upserted.length) this.rank = undefined;
+  }
+
+  // strokes as they look before their change is committed.
+  setPreview(strokes: [string, string][]) {
+    strokes.forEach(([uid, pathData]) => {
+      this.unindex(uid);
+      const stroke = this.entries.get(uid)?.stroke;
+      if (!stroke) return;
+      this.previews.set(uid, { stroke: { ...stroke, pathData } });
+      this.index(uid);
+    });
+  }
+
+  clearPreview() {
+    const uids = Array.from(this.previews.keys());
+    uids.forEach((uid) => this.unindex(uid));
+    this.previews.clear();
+    uids.forEach((uid) => this.index(uid));
+  }
+
+  // the layers as `DrawState.mergeLayers` gives them.
+  setLayers(layers: DrawLayer[]) {
+    this.layers = layers;
+    this.rank = undefined;
+    this.tiles.clear();
+  }
+
+  private getRank() {
+    if (!this.rank) {
+      // layer by layer, the strokes of unknown layers on top.
+      const { layers, order } = this;
+      const layerRank = new Map(layers.map(({ uid }, i) => [uid, i]));
+      const rank = new Map<string, number>();
+      order.forEach((uid, i) => {
+        const stroke = this.entries.get(uid)?.stroke;
+        const layer = stroke ? getStrokeLayer(stroke) : "";
+        const base = layerRank.get(layer) ?? layers.length;
+        rank.set(uid, base * order.length + i);
+      });
+      this.rank = rank;
+    }
+    return this.rank;
+  }
+
+  private getDetail(entry: Entry, level: number) {
+    const { item } = entry;
+    // simplified only below the page scale.
+    if (!item || level >= 0) return item;
+    entry.details ??= new Map();
+    let detail = entry.details.get(level);
+    if (!detail) {
+      // half a device pixel.
+      detail = simplifyItem(item, 0.5 / 2 ** level);
+      entry.details.set(level, detail);
+    }
+    return detail;
+  }
+
+  private renderTile(level: number, x: number, y: number): Tile {
+    const { tileSize } = this;
+    const size = tileSize / 2 ** level;
+    const bounds = { x: x * size, y: y * size, width: size, height: size };
+    const canvas = this.options.createCanvas(tileSize, tileSize);
+    const ctx = canvas.getContext("2d") as Context2D | null;
+    if (ctx) {
+      const rank = this.getRank();
+      const uids = this.grid.search(bounds).concat(Array.from(this.unbounded));
+      uids.sort((a, b) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0));
+      ctx.scale(2 ** level, 2 ** level);
+      ctx.translate(-bounds.x, -bounds.y);
+      const layers = new Map(this.layers.map((layer) => [layer.uid, layer]));
+      uids.forEach((uid) => {
+        const entry = this.getEntry(uid);
+        const layer = entry && layers.get(getStrokeLayer(entry.stroke));
+        if (layer && !layer.visible) return;
+        const item = entry && this.getDetail(this.parse(entry), level);
+        if (!item) return;
+        // per stroke, where paper fades the layer as a whole.
+        ctx.globalAlpha = layer?.opacity ?? 1;
+        drawItem(ctx, item, { getImage: this.getImage });
+      });
+    }
+    return { key: `${level}:${x}:${y}`, level, bounds, canvas };
+  }
+
+  // the tiles over an area, rendering at most `budget` of those missing;
+  // `pending` tells that more are to come.
+  getTiles(area: GridRect, level: number, budget = Infinity) {
+    const size = this.tileSize / 2 ** level;
+    const tiles: Tile[] = [];
+    let pending = false;
+    for (
+      let x = Math.floor(area.x / size);
+      x * size < area.x + area.width;
+      x += 1
+    ) {
+      for (
+        let y = Math.floor(area.y / size);
+        y * size < area.y + area.height;
+        y += 1
+      ) {
+        const key = `${level}:${x}:${y}`;
+        let tile = this.tiles.get(key);
+        if (tile) {
+          // the most recently used last.
+          this.tiles.delete(key);
+        } else if (budget > 0) {
+          budget -= 1;
+          tile = this.renderTile(level, x, y);
+        } else {
+          pending = true;
+          continue;
+        }
+        this.tiles.set(key, tile);
+        tiles.push(tile);
+      }
+    }
+    const { tiles: cached, maxTiles } = this;
+    const extra = cached.size - Math.max(maxTiles, tiles.length);
+    Array.from(cached.keys())
+      .slice(0, Math.max(extra, 0))
+      .forEach((key) => cached.delete(key));
+    return { tiles, pending };
+  }
+}
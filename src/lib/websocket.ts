@@ -0,0 +1,162 @@
+import { SyncOp, Transport } from "./collab";
+import { AwarenessState, AwarenessTransport } from "./awareness";
+
+type AwarenessMessage = { type: "awareness"; state: AwarenessState };
+
+// `since` counts in the log of the relay run given by `epoch`.
+export type RelayClientMessage =
+  | { type: "join"; room: string; since: number; epoch?: string }
+  | { type: "op"; op: SyncOp }
+  | AwarenessMessage;
+
+// `index` is the position of the op in the room log, starting from 1.
+export type RelayOpMessage = { type: "op"; index: number; op: SyncOp };
+// a relay run, whose logs start from 1 again after a restart.
+export type RelayWelcomeMessage = { type: "welcome"; epoch: string };
+export type RelayServerMessage =
+  | RelayOpMessage
+  | RelayWelcomeMessage
+  | AwarenessMessage;
+
+export type ConnectionStatus = "connecting" | "open" | "closed";
+
+interface SocketLike {
+  readyState: number;
+  onopen: ((e: Event) => void) | null;
+  onclose: ((e: CloseEvent) => void) | null;
+  onerror: ((e: Event) => void) | null;
+  onmessage: ((e: MessageEvent<string | ArrayBuffer>) => void) | null;
+  send: (data: string) => void;
+  close: () => void;
+}
+
+export interface WebSocketTransportOptions {
+  url: string;
+  room: string;
+  // e.g. the `ws` package outside the browser.
+  WebSocket?: new (url: string) => SocketLike;
+  minRetryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+const OPEN = 1;
+
+export class WebSocketTransport implements Transport {
+  private socket?: SocketLike;
+  private status: ConnectionStatus = "connecting";
+  private listeners = new Set<(op: SyncOp) => void>();
+  private awarenessListeners = new Set<(state: AwarenessState) => void>();
+  private statusListeners = new Set<() => void>();
+  // local ops not yet echoed back by the relay.
+  private outbox: SyncOp[] = [];
+  // ops received before anyone subscribed, handed to the first listener.
+  private received: SyncOp[] = [];
+  private epoch?: string;
+  private lastIndex = 0;
+  private retries = 0;
+  private timerID?: ReturnType<typeof setTimeout>;
+
+  constructor(private options: WebSocketTransportOptions) {
+    this.connect();
+  }
+
+  getStatus = () => this.status;
+
+  subscribeStatus = (listener: () => void) => {
+    this.statusListeners.add(listener);
+    return () => void this.statusListeners.delete(listener);
+  };
+
+  send = (op: SyncOp) => {
+    this.outbox.push(op);
+    this.post({ type: "op", op });
+  };
+
+  subscribe = (listener: (op: SyncOp) => void) => {
+    this.listeners.add(listener);
+    this.received.forEach(listener);
+    this.received = [];
+    return () => void this.listeners.delete(listener);
+  };
+
+  // awareness isn't logged by the relay, peers re-send it periodically.
+  awareness: AwarenessTransport = {
+    send: (state) => this.post({ type: "awareness", state }),
+    subscribe: (listener) => {
+      this.awarenessListeners.add(listener);
+      return () => void this.awarenessListeners.delete(listener);
+    },
+  };
+
+  close() {
+    clearTimeout(this.timerID);
+    this.setStatus("closed");
+    const { socket } = this;
+    this.socket = undefined;
+    socket?.close();
+  }
+
+  private post(message: RelayClientMessage) {
+    const { socket } = this;
+    if (socket?.readyState !== OPEN) return;
+    socket.send(JSON.stringify(message));
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener());
+  }
+
+  private connect() {
+    const { url, room } = this.options;
+    const Socket = this.options.WebSocket ?? WebSocket;
+    const socket = new Socket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retries = 0;
+      this.setStatus("open");
+      // catch up from the last op seen, then resend unacknowledged ones.
+      const { epoch, lastIndex: since } = this;
+      this.post({ type: "join", room, since, epoch });
+      this.outbox.forEach((op) => this.post({ type: "op", op }));
+    };
+    socket.onmessage = ({ data }: MessageEvent<string | ArrayBuffer>) => {
+      let message: RelayServerMessage;
+      try {
+        message = JSON.parse(String(data));
+      } catch (e) {
+        return console.error(e);
+      }
+      if (message.type === "awareness") {
+        const { state } = message;
+        this.awarenessListeners.forEach((listener) => listener(state));
+        return;
+      }
+      if (message.type === "welcome") {
+        // a restarted relay numbers its ops from the start.
+        if (message.epoch !== this.epoch) this.lastIndex = 0;
+        this.epoch = message.epoch;
+        return;
+      }
+      const { type, index, op } = message;
+      if (type !== "op" || index <= this.lastIndex) return;
+      this.lastIndex = index;
+      this.outbox = this.outbox.filter(
+        (o) => o.clientID !== op.clientID || o.seq !== op.seq
+      );
+      if (!this.listeners.size) this.received.push(op);
+      this.listeners.forEach((listener) => listener(op));
+    };
+    socket.onerror = () => socket.close();
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.setStatus("connecting");
+      const { minRetryDelay = 500, maxRetryDelay = 10_000 } = this.options;
+      const delay = Math.min(minRetryDelay * 2 ** this.retries, maxRetryDelay);
+      this.retries += 1;
+      this.timerID = setTimeout(() => this.connect(), delay);
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { v4 } from "uuid";
+import { startRelayServer } from "./relay";
+import {
+  WebSocketTransport,
+  WebSocketTransportOptions,
+} from "../lib/websocket";
+import type { SyncOp } from "../lib/collab";
+
+const Socket = WebSocket as unknown as WebSocketTransportOptions["WebSocket"];
+
+const makeOp = (clientID: string, seq: number): SyncOp => ({
+  clientID,
+  seq,
+  clock: { [clientID]: seq },
+  patch: { removed: [v4()], upserted: [] },
+});
+
+const waitFor = (condition: () => boolean, timeout = 2000) =>
+  new Promise<void>((resolve, reject) => {
+    const start = Date.now();
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() - start > timeout) return reject(new Error("timed out"));
+      setTimeout(check, 10);
+    };
+    check();
+  });
+
+const startRelay = async () => {
+  const wss = startRelayServer({ port: 0 });
+  await new Promise((resolve) => wss.once("listening", resolve));
+  const { port } = wss.address() as AddressInfo;
+  return { wss, url: `ws://127.0.0.1:${port}` };
+};
+
+const connect = (url: string, room = "room") => {
+  const transport = new WebSocketTransport({
+    url,
+    room,
+    WebSocket: Socket,
+    minRetryDelay: 50,
+  });
+  const ops: SyncOp[] = [];
+  transport.subscribe((op) => ops.push(op));
+  return { transport, ops };
+};
+
+test("relays ops between the clients of a room", async () => {
+  const { wss, url } = await startRelay();
+  const a = connect(url);
+  const b = connect(url);
+  try {
+    await waitFor(
+      () =>
+        a.transport.getStatus() === "open" && b.transport.getStatus() === "open"
+    );
+    const op = makeOp("a", 1);
+    a.transport.send(op);
+    await waitFor(() => a.ops.length === 1 && b.ops.length === 1);
+    assert.deepEqual(b.ops[0], op);
+
+    // a late client catches up from the room log.
+    const c = connect(url);
+    await waitFor(() => c.ops.length === 1);
+    c.transport.close();
+  } finally {
+    a.transport.close();
+    b.transport.close();
+    wss.close();
+  }
+});
+
+test("drops malformed messages and keeps relaying", async () => {
+  const { wss, url } = await startRelay();
+  const b = connect(url);
+  const raw = new WebSocket(url);
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    await new Promise((resolve) => raw.once("open", resolve));
+    raw.send(JSON.stringify({ type: "join", room: "room", since: 0 }));
+    raw.send(JSON.stringify({ type: "op" }));
+    raw.send(
+      JSON.stringify({ type: "op", op: { ...makeOp("x", 1), seq: -1 } })
+    );
+    raw.send("null");
+    const op = makeOp("x", 1);
+    raw.send(JSON.stringify({ type: "op", op }));
+    await waitFor(() => b.ops.length === 1);
+    assert.deepEqual(b.ops[0], op);
+    assert.equal(raw.readyState, WebSocket.OPEN);
+
+    // invalid json closes only the socket that sent it.
+    const closed = new Promise((resolve) => raw.once("close", resolve));
+    raw.send("{");
+    assert.equal(await closed, 1003);
+    b.transport.send(makeOp("b", 1));
+    await waitFor(() => b.ops.length === 2);
+  } finally {
+    console.warn = warn;
+    raw.close();
+    b.transport.close();
+    wss.close();
+  }
+});
+
+test("catches up from the start after the relay restarts", async () => {
+  const first = await startRelay();
+  const port = (first.wss.address() as AddressInfo).port;
+  const a = connect(first.url);
+  try {
+    a.transport.send(makeOp("a", 1));
+    a.transport.send(makeOp("a", 2));
+    await waitFor(() => a.ops.length === 2);
+    first.wss.clients.forEach((socket) => socket.terminate());
+    await new Promise((resolve) => first.wss.close(resolve));
+    await waitFor(() => a.transport.getStatus() === "connecting");
+
+    // the new run numbers its log from 1 again.
+    const wss = startRelayServer({ port });
+    try {
+      const b = connect(first.url);
+      b.transport.send(makeOp("b", 1));
+      await waitFor(() => a.ops.length === 3, 5000);
+      assert.equal(a.ops[2]?.clientID, "b");
+      b.transport.close();
+    } finally {
+      wss.close();
+    }
+  } finally {
+    a.transport.close();
+  }
+});
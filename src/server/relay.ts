@@ -0,0 +1,125 @@
+import { WebSocketServer, WebSocket, ServerOptions } from "ws";
+import { v4 } from "uuid";
+import type { SyncOp } from "../lib/collab";
+import { validateSyncOp } from "../lib/schema";
+import type {
+  RelayOpMessage,
+  RelayClientMessage,
+  RelayServerMessage,
+} from "../lib/websocket";
+
+interface Room {
+  log: RelayOpMessage[];
+  // last seq relayed for each client.
+  seqs: Map<string, number>;
+  sockets: Set<WebSocket>;
+}
+
+const send = (socket: WebSocket, message: RelayServerMessage) => {
+  if (socket.readyState !== WebSocket.OPEN) return;
+  socket.send(JSON.stringify(message));
+};
+
+const isObject = (v: unknown): v is { [key: string]: unknown } =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// the message when it is well-formed, undefined otherwise.
+const checkMessage = (message: unknown): RelayClientMessage | undefined => {
+  if (!isObject(message)) return;
+  switch (message.type) {
+    case "join": {
+      const { room, since, epoch } = message;
+      const valid =
+        typeof room === "string" &&
+        (epoch === undefined || typeof epoch === "string") &&
+        typeof since === "number" &&
+        Number.isInteger(since) &&
+        since >= 0;
+      return valid ? (message as RelayClientMessage) : undefined;
+    }
+    case "op":
+      if (validateSyncOp(message.op).length) return;
+      return message as RelayClientMessage;
+    case "awareness": {
+      const { state } = message;
+      const valid = isObject(state) && typeof state.clientID === "string";
+      return valid ? (message as RelayClientMessage) : undefined;
+    }
+  }
+};
+
+// relays SyncOps between the sockets of a room and keeps the room log in
+// memory, so reconnecting clients can catch up.
+export function startRelayServer(options: ServerOptions = { port: 8080 }) {
+  const wss = new WebSocketServer(options);
+  const rooms = new Map<string, Room>();
+  // the logs are lost on restart, clients of an older run catch up from 0.
+  const epoch = v4();
+
+  const getRoom = (name: string) => {
+    let room = rooms.get(name);
+    if (!room) {
+      room = { log: [], seqs: new Map(), sockets: new Set() };
+      rooms.set(name, room);
+    }
+    return room;
+  };
+
+  const relay = (room: Room, op: SyncOp) => {
+    const { clientID, seq } = op;
+    // resent after a reconnect.
+    if (seq <= (room.seqs.get(clientID) ?? 0)) return;
+    room.seqs.set(clientID, seq);
+    const message: RelayOpMessage = {
+      type: "op",
+      index: room.log.length + 1,
+      op,
+    };
+    room.log.push(message);
+    room.sockets.forEach((socket) => send(socket, message));
+  };
+
+  wss.on("connection", (socket) => {
+    let room: Room | undefined;
+
+    const handle = (data: string) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data);
+      } catch (e) {
+        return socket.close(1003, "invalid message");
+      }
+      // a malformed message is dropped, the socket stays open.
+      const message = checkMessage(parsed);
+      if (!message) return console.warn("dropped a malformed message");
+      if (message.type === "join") {
+        room?.sockets.delete(socket);
+        room = getRoom(message.room);
+        room.sockets.add(socket);
+        const since = message.epoch === epoch ? message.since : 0;
+        send(socket, { type: "welcome", epoch });
+        room.log.slice(since).forEach((m) => send(socket, m));
+      } else if (message.type === "op" && room) {
+        relay(room, message.op);
+      } else if (message.type === "awareness" && room) {
+        const { state } = message;
+        room.sockets.forEach((s) => {
+          if (s !== socket) send(s, { type: "awareness", state });
+        });
+      }
+    };
+
+    socket.on("message", (data) => {
+      try {
+        handle(String(data));
+      } catch (e) {
+        console.error(e);
+        socket.close(1011, "internal error");
+      }
+    });
+
+    socket.on("close", () => room?.sockets.delete(socket));
+  });
+
+  return wss;
+}
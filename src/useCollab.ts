@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { DrawState } from "./lib/DrawState";
+import { CollabSession } from "./lib/collab";
+import { Awareness, AwarenessOptions, AwarenessState } from "./lib/awareness";
+import {
+  ConnectionStatus,
+  WebSocketTransport,
+  WebSocketTransportOptions,
+} from "./lib/websocket";
+
+export function useCollab(session: CollabSession) {
+  const { subscribe, getState, getOtherStates, setState } = session;
+  const drawState = useSyncExternalStore(subscribe, getState);
+  const otherStates = useSyncExternalStore(subscribe, getOtherStates);
+  return { drawState, otherStates, onChange: setState };
+}
+
+const noop = () => () => {};
+const noopChange = () => {};
+const NO_STATES: DrawState[] = [];
+const NO_PEERS: AwarenessState[] = [];
+
+// returns the `peers` and `onAwarenessChange` props of `<Draw>`.
+export function useAwareness(awareness?: Awareness) {
+  const peers = useSyncExternalStore(
+    awareness?.subscribe ?? noop,
+    () => awareness?.getPeers() ?? NO_PEERS
+  );
+  return { peers, onAwarenessChange: awareness?.setLocal ?? noopChange };
+}
+
+export interface WebSocketSyncOptions extends WebSocketTransportOptions {
+  // shares cursors and stroke previews when set.
+  user?: AwarenessOptions;
+}
+
+export function useWebSocketSync(
+  options: WebSocketSyncOptions,
+  initialState: DrawState
+) {
+  const { url, room } = options;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const stateRef = useRef(initialState);
+
+  const [connection, setConnection] = useState<{
+    session: CollabSession;
+    transport: WebSocketTransport;
+    awareness?: Awareness;
+  }>();
+
+  useEffect(() => {
+    const { user, ...rest } = optionsRef.current;
+    const transport = new WebSocketTransport({ ...rest, url, room });
+    // keep drawing with the latest state after switching rooms.
+    const session = new CollabSession(transport, stateRef.current);
+    const awareness = user && new Awareness(transport.awareness, user);
+    setConnection({ session, transport, awareness });
+    return () => {
+      stateRef.current = session.getState();
+      session.destroy();
+      awareness?.destroy();
+      transport.close();
+    };
+  }, [url, room]);
+
+  const session = connection?.session;
+  const transport = connection?.transport;
+  const subscribe = session?.subscribe ?? noop;
+  const drawState = useSyncExternalStore(
+    subscribe,
+    () => session?.getState() ?? stateRef.current
+  );
+  const otherStates = useSyncExternalStore(
+    subscribe,
+    () => session?.getOtherStates() ?? NO_STATES
+  );
+  const status = useSyncExternalStore<ConnectionStatus>(
+    transport?.subscribeStatus ?? noop,
+    () => transport?.getStatus() ?? "connecting"
+  );
+  const onChange = session?.setState ?? noopChange;
+  const { peers, onAwarenessChange } = useAwareness(connection?.awareness);
+
+  return { drawState, otherStates, onChange, status, peers, onAwarenessChange };
+}
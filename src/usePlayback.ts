@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+import { PlaybackController } from "./lib/playback";
+
+// spread `drawState` and `otherStates` onto a readonly `<Draw>`.
+export function usePlayback(controller: PlaybackController) {
+  const { subscribe, getFrame, isPlaying, getSpeed } = controller;
+  const { drawState, otherStates, time } = useSyncExternalStore(
+    subscribe,
+    getFrame
+  );
+  const playing = useSyncExternalStore(subscribe, isPlaying);
+  const speed = useSyncExternalStore(subscribe, getSpeed);
+  const duration = controller.getDuration();
+  return { drawState, otherStates, time, duration, playing, speed };
+}
@@ -16,3 +16,18 @@ export function releaseCanvas(canvas?: HTMLCanvasElement) {
   const ctx = canvas.getContext("2d");
   ctx?.clearRect(0, 0, 1, 1);
 }
+
+export function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type?: string,
+  quality?: number
+) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("can't export canvas")),
+      type,
+      quality
+    );
+  });
+}
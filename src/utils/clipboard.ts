@@ -0,0 +1,70 @@
+import paper from "paper/dist/paper-core";
+import { CLIPBOARD_TYPE } from "../lib/clipboard";
+
+type ClipboardItemClass = typeof ClipboardItem & {
+  supports?: (type: string) => boolean;
+};
+
+// writes the given formats, leaving out those the browser can't write.
+export const writeClipboard = async (
+  data: Record<string, Blob | Promise<Blob>>
+) => {
+  const Item = ClipboardItem as ClipboardItemClass;
+  const supported: Record<string, Blob | Promise<Blob>> = {};
+  Object.keys(data).forEach((type) => {
+    const blob = data[type];
+    if (blob && (!Item.supports || Item.supports(type))) {
+      supported[type] = blob;
+    }
+  });
+  await navigator.clipboard.write([new Item(supported)]);
+};
+
+// the pasted content, in the format that keeps the most of it.
+const PASTE_TYPES = [CLIPBOARD_TYPE, "image/svg+xml", "image/", "text/plain"];
+
+export const readClipboard = async () => {
+  const items = await navigator.clipboard.read();
+  for (const prefix of PASTE_TYPES) {
+    for (const item of items) {
+      const type = item.types.find((t) => t.startsWith(prefix));
+      if (type) return { type, blob: await item.getType(type) };
+    }
+  }
+};
+
+const isSVG = (text: string) => /^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(text);
+
+// the pathData of the paths, texts and images of an svg, each one a stroke
+// of its own, centered at the point. Groups leave their transforms and
+// opacity to their children.
+export const importSVGStrokes = (svg: string, point: paper.Point) => {
+  if (!isSVG(svg)) return [];
+  let root: paper.Item;
+  try {
+    root = paper.project.importSVG(svg, { insert: false, expandShapes: true });
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+  if (!root) return [];
+  root.position = point;
+
+  const strokes: string[] = [];
+  const visit = (item: paper.Item) => {
+    if (item.clipMask || !item.visible) return;
+    if (item instanceof paper.Group) return item.children.forEach(visit);
+    if (item instanceof paper.PathItem && item.isEmpty()) return;
+    const copy = item.clone({ insert: false });
+    let opacity = item.opacity;
+    for (let p = item.parent; p; p = p.parent) {
+      copy.transform(p.matrix);
+      opacity *= p.opacity;
+    }
+    copy.opacity = opacity;
+    copy.name = "";
+    strokes.push(copy.exportJSON());
+  };
+  visit(root);
+  return strokes;
+};
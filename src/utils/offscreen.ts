@@ -0,0 +1,32 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import type { RenderPort } from "../lib/offscreen";
+
+// puts a canvas under the paper one and hands it to the port, which paints
+// the committed strokes there. Undefined until then, or when the browser
+// can't transfer a canvas. The port is created once, on mount.
+export function useRenderPort(
+  createPort: (() => RenderPort) | undefined,
+  canvasEl: RefObject<HTMLCanvasElement>
+) {
+  const [port, setPort] = useState<RenderPort>();
+  const create = useRef(createPort);
+  useEffect(() => {
+    const paperCanvas = canvasEl.current;
+    if (!create.current || !paperCanvas) return;
+    const canvas = document.createElement("canvas");
+    if (!("transferControlToOffscreen" in canvas)) return;
+    canvas.className = "draw-canvas draw-offscreen";
+    paperCanvas.before(canvas);
+
+    const renderPort = create.current();
+    const offscreen = canvas.transferControlToOffscreen();
+    renderPort.postMessage({ type: "init", canvas: offscreen }, [offscreen]);
+    setPort(renderPort);
+    return () => {
+      renderPort.terminate();
+      canvas.remove();
+      setPort(undefined);
+    };
+  }, [canvasEl]);
+  return port;
+}
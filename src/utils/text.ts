@@ -0,0 +1,173 @@
+import paper from "paper/dist/paper-core";
+import {
+  createRichText,
+  getCaretRect,
+  getFontWeight,
+  getSelectionRects,
+  layoutText,
+  MeasureText,
+  RichTextData,
+  TextLayout,
+} from "../lib/richText";
+
+const SELECTION_COLOR = "#009dec";
+const HANDLE_SIZE = 16;
+
+export const measureText: MeasureText = (() => {
+  let context: CanvasRenderingContext2D | null = null;
+  return (text, font) => {
+    context ??= document.createElement("canvas").getContext("2d");
+    if (!context) return 0;
+    context.font = font;
+    return context.measureText(text).width;
+  };
+})();
+
+export const isRichText = (item: paper.Item): item is paper.Group =>
+  item instanceof paper.Group && !!item.data.richText;
+
+export const getRichTextData = (item: paper.Group): RichTextData =>
+  item.data.richText;
+
+// a box of wrapping text, laid out in its own coordinates from the top-left.
+export const startRichText = (point: paper.Point, data: RichTextData) => {
+  const item = new paper.Group();
+  item.applyMatrix = false;
+  item.translate(point);
+  renderRichText(item, data);
+  return item;
+};
+
+// converts a text item of older documents, keeping its name.
+export const fromPointText = (pt: paper.PointText) => {
+  const { bounds, content, fontFamily, fontSize, fillColor } = pt;
+  const data = createRichText({
+    text: content,
+    width: Math.max(bounds.width + Number(fontSize), 200),
+    fontFamily,
+    fontSize: Number(fontSize),
+    color: fillColor?.toCSS(true),
+  });
+  const item = startRichText(bounds.topLeft, data);
+  item.name = pt.name;
+  pt.replaceWith(item);
+  return item;
+};
+
+// draws the text as one text item per styled fragment, which keeps the
+// stroke readable by paper.js and the svg and pdf exports.
+export const renderRichText = (item: paper.Group, data: RichTextData) => {
+  const layout = layoutText(data, measureText);
+  const height = Math.max(layout.height, data.fontSize);
+  item.removeChildren();
+  // the box keeps the bounds of the item, also where it is empty.
+  item.addChild(
+    new paper.Path.Rectangle({
+      point: [0, 0],
+      size: [data.width, height],
+      insert: false,
+    })
+  );
+  layout.lines.forEach(({ baseline, fragments }) => {
+    fragments.forEach(({ text, x, style, offsets }) => {
+      const { fontSize, color, underline } = style;
+      item.addChild(
+        new paper.PointText({
+          point: [x, baseline],
+          content: text,
+          fontFamily: data.fontFamily,
+          fontWeight: getFontWeight(style),
+          fontSize,
+          fillColor: color,
+          insert: false,
+        })
+      );
+      if (!underline) return;
+      const y = baseline + fontSize / 10;
+      const width = offsets[offsets.length - 1] ?? 0;
+      item.addChild(
+        new paper.Path.Line({
+          from: [x, y],
+          to: [x + width, y],
+          strokeColor: color,
+          strokeWidth: Math.max(fontSize / 16, 1),
+          insert: false,
+        })
+      );
+    });
+  });
+  item.data.richText = data;
+  return layout;
+};
+
+// the caret, selection, box outline and resize handle of the edited text.
+export const paintTextOverlay = (
+  item: paper.Group,
+  layout: TextLayout,
+  [from, to]: [number, number]
+) => {
+  const data = getRichTextData(item);
+  const overlay = new paper.Group({ insert: false });
+  overlay.applyMatrix = false;
+  overlay.matrix = item.matrix.clone();
+  const height = Math.max(layout.height, data.fontSize);
+
+  const outline = new paper.Path.Rectangle({
+    point: [0, 0],
+    size: [data.width, height],
+    strokeColor: SELECTION_COLOR,
+    strokeWidth: 2,
+    dashArray: [10, 6],
+    insert: false,
+  });
+  const handle = new paper.Path.Rectangle({
+    point: [data.width - HANDLE_SIZE / 2, height / 2 - HANDLE_SIZE / 2],
+    size: [HANDLE_SIZE, HANDLE_SIZE],
+    fillColor: "#fff",
+    strokeColor: SELECTION_COLOR,
+    strokeWidth: 2,
+    insert: false,
+  });
+  overlay.addChildren([outline, handle]);
+
+  if (from !== to) {
+    getSelectionRects(layout, from, to).forEach(({ x, y, width, height }) => {
+      const rect = new paper.Path.Rectangle({
+        point: [x, y],
+        size: [width, height],
+        fillColor: SELECTION_COLOR,
+        opacity: 0.3,
+        insert: false,
+      });
+      overlay.addChild(rect);
+    });
+  } else {
+    const { x, y, height } = getCaretRect(layout, to);
+    const caret = new paper.Path.Line({
+      from: [x, y],
+      to: [x, y + height],
+      strokeColor: "#000",
+      strokeWidth: 2,
+      insert: false,
+    });
+    // blinks from when it is placed.
+    const shown = Date.now();
+    caret.onFrame = () => {
+      caret.visible = Math.floor((Date.now() - shown) / 500) % 2 === 0;
+    };
+    overlay.addChild(caret);
+  }
+  return overlay;
+};
+
+// whether a point, in the coordinates of the text box, is on its resize
+// handle.
+export const isOnResizeHandle = (item: paper.Group, local: paper.Point) => {
+  const { width } = getRichTextData(item);
+  const { height } = item.internalBounds;
+  return (
+    Math.abs(local.x - width) <= HANDLE_SIZE &&
+    local.y >= 0 &&
+    local.y <= height
+  );
+};
@@ -1,8 +1,11 @@
 import { PointerEvent, TouchEvent, useEffect, useRef } from "react";
+import { PenInput } from "../lib/pressure";
 
 type iOSTouch = Touch & {
   force?: number;
   touchType?: "stylus" | "direct";
+  // radians, PI / 2 when the pencil is upright.
+  altitudeAngle?: number;
 };
 
 export function isApplePencil(e: TouchEvent) {
@@ -10,6 +13,30 @@ export function isApplePencil(e: TouchEvent) {
   return touch?.touchType === "stylus";
 }
 
+// reads pressure and tilt of a pen, from pointer or iOS touch events.
+export function readPenInput(e: Event): PenInput {
+  const { PointerEvent } = window;
+  if (PointerEvent && e instanceof PointerEvent) {
+    if (e.pointerType !== "pen") return {};
+    const tilt = Math.min(Math.hypot(e.tiltX, e.tiltY), 90) / 90;
+    return { pressure: e.pressure, tilt };
+  }
+  const touch = (e as globalThis.TouchEvent).touches?.[0] as iOSTouch;
+  if (touch?.touchType !== "stylus" || touch.force === undefined) return {};
+  const { altitudeAngle = Math.PI / 2 } = touch;
+  return { pressure: touch.force, tilt: 1 - altitudeAngle / (Math.PI / 2) };
+}
+
+// paper.js listens to touch and mouse events, which lack pen pressure on
+// most platforms, so the latest pointer event is kept aside.
+export function usePenInput() {
+  const pen = useRef<PenInput>({});
+  const record = (e: PointerEvent) => {
+    if (e.isPrimary) pen.current = readPenInput(e.nativeEvent);
+  };
+  return [pen, { onPointerDown: record, onPointerMove: record }] as const;
+}
+
 export function usePreventTouch(
   allowFinger: boolean
 ): React.HTMLAttributes<HTMLDivElement> {
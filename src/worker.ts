@@ -0,0 +1,4 @@
+// the entry of `dist/renderWorker.js`, see `<Draw createRenderWorker>`.
+import { exposeRenderer } from "./lib/offscreen";
+
+exposeRenderer(self);
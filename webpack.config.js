@@ -1,6 +1,6 @@
 var path = require("path");
 
-module.exports = {
+const web = {
   mode: "production",
   entry: {
     index: "./src/index.tsx",
@@ -38,3 +38,41 @@ module.exports = {
     immutable: "immutable",
   },
 };
+
+// the relay server runs on node.
+const server = {
+  mode: "production",
+  target: "node",
+  entry: {
+    relay: "./src/server/relay.ts",
+  },
+  output: web.output,
+  devtool: "source-map",
+  module: {
+    rules: [web.module.rules[0]],
+  },
+  resolve: web.resolve,
+  externals: {
+    ws: "ws",
+  },
+};
+
+// the stroke renderer runs in a web worker.
+const worker = {
+  mode: "production",
+  target: "webworker",
+  entry: {
+    renderWorker: "./src/worker.ts",
+  },
+  output: {
+    path: web.output.path,
+    filename: "[name].js",
+  },
+  devtool: "source-map",
+  module: {
+    rules: [web.module.rules[0]],
+  },
+  resolve: web.resolve,
+};
+
+module.exports = [web, server, worker];
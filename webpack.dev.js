@@ -1,6 +1,8 @@
 var path = require("path");
-const config = require("./webpack.config");
-config.mode = "development";
-config.watch = true;
+const configs = require("./webpack.config");
+configs.forEach((config) => {
+  config.mode = "development";
+  config.watch = true;
+});
 
-module.exports = config;
+module.exports = configs;